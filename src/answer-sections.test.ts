@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { parseAnswerSections } from "./answer-sections.ts";
+
+describe("parseAnswerSections", () => {
+  it("should split bold-label sections from the answer prompt", () => {
+    const input = `**Recommendation:** Use Zod [1].
+
+**Why:** Larger ecosystem [2].
+
+**Implementation:**
+\`\`\`ts
+const schema = z.string();
+\`\`\`
+
+**Trade-offs:** Bigger bundle.
+
+**Alternatives:** Valibot for size-sensitive apps.`;
+
+    expect(parseAnswerSections(input)).toEqual({
+      recommendation: "Use Zod [1].",
+      why: "Larger ecosystem [2].",
+      implementation: "```ts\nconst schema = z.string();\n```",
+      tradeOffs: "Bigger bundle.",
+      alternatives: "Valibot for size-sensitive apps.",
+    });
+  });
+
+  it("should recognize markdown headings and list-item labels", () => {
+    const input = `## Recommendation
+Use native fetch.
+
+- **Why**: Built in since Node 18.
+
+### Tradeoffs
+No interceptors.`;
+
+    expect(parseAnswerSections(input)).toEqual({
+      recommendation: "Use native fetch.",
+      why: "Built in since Node 18.",
+      tradeOffs: "No interceptors.",
+    });
+  });
+
+  it("should omit sections the model did not produce", () => {
+    expect(parseAnswerSections("Just a plain answer without headings.")).toEqual({});
+  });
+
+  it("should not treat sentences starting with a section word as headings", () => {
+    const input = "**Why:** Because.\nWhy this matters is covered above.";
+    expect(parseAnswerSections(input)).toEqual({
+      why: "Because.\nWhy this matters is covered above.",
+    });
+  });
+
+  it("should keep the first occurrence of a repeated heading", () => {
+    const input = "**Why:** First.\n**Why:** Second.";
+    expect(parseAnswerSections(input)).toEqual({ why: "First." });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Sections requested by ANSWER_SYSTEM_PROMPT's "Output Structure"
+ */
+export interface AnswerSections {
+  recommendation?: string;
+  why?: string;
+  implementation?: string;
+  tradeOffs?: string;
+  alternatives?: string;
+}
+
+const SECTION_KEYS: Record<string, keyof AnswerSections> = {
+  recommendation: "recommendation",
+  why: "why",
+  implementation: "implementation",
+  "trade-offs": "tradeOffs",
+  tradeoffs: "tradeOffs",
+  "trade offs": "tradeOffs",
+  alternatives: "alternatives",
+};
+
+/**
+ * Matches a section heading at the start of a line, in any of the forms the
+ * model tends to produce: "**Why:** text", "- **Why**: text", "## Why", "Why:".
+ * Group 1 is the heading name; group 2 is any text following it on the same line.
+ */
+const HEADING =
+  /^[ \t]*(?:#{1,6}[ \t]+|[-*][ \t]+)?(?:\*\*|__)?(recommendation|why|implementation|trade-offs|tradeoffs|trade offs|alternatives)(?:[ \t]*:[ \t]*(?:\*\*|__)|(?:\*\*|__)[ \t]*:?|[ \t]*:|[ \t]*$)[ \t]*(.*)$/gimu;
+
+/**
+ * Splits an answer into the sections requested by ANSWER_SYSTEM_PROMPT.
+ * Sections the model did not produce are omitted. When a heading appears more
+ * than once, the first occurrence wins.
+ *
+ * @param {string} content - The think-stripped answer text
+ * @returns {AnswerSections} The text of each recognized section
+ */
+export function parseAnswerSections(content: string): AnswerSections {
+  const headings = [...content.matchAll(HEADING)];
+  const sections: AnswerSections = {};
+
+  for (const [position, match] of headings.entries()) {
+    const key = SECTION_KEYS[(match[1] ?? "").toLowerCase()];
+    if (!key || sections[key] !== undefined) {
+      continue;
+    }
+
+    const start = match.index + match[0].length;
+    const end = headings[position + 1]?.index ?? content.length;
+    const text = `${match[2] ?? ""}${content.slice(start, end)}`.trim();
+    if (text) {
+      sections[key] = text;
+    }
+  }
+
+  return sections;
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import { mergeCitations, processCitations } from "./citations.ts";
+
+const source = (index: number, url = `https://example.com/${index}`) => ({
+  index,
+  title: `Source ${index}`,
+  url,
+});
+
+const strict = { dangling: "remove", dropUncited: true } as const;
+const lenient = { dangling: "flag", dropUncited: false } as const;
+
+describe("processCitations", () => {
+  describe("renumbering", () => {
+    it("should leave contiguous citations in order unchanged", () => {
+      const result = processCitations("A [1]. B [2].", [source(1), source(2)], strict);
+      expect(result.content).toBe("A [1]. B [2].");
+      expect(result.sources.map((s) => s.url)).toEqual([
+        "https://example.com/1",
+        "https://example.com/2",
+      ]);
+      expect(result.danglingCitations).toEqual([]);
+    });
+
+    it("should renumber in order of first citation", () => {
+      const result = processCitations(
+        "First [3]. Then [1]. Again [3].",
+        [source(1), source(2), source(3)],
+        strict,
+      );
+      expect(result.content).toBe("First [1]. Then [2]. Again [1].");
+      expect(result.sources).toEqual([
+        { ...source(3), index: 1 },
+        { ...source(1), index: 2 },
+      ]);
+    });
+
+    it("should renumber comma-separated and adjacent markers", () => {
+      const result = processCitations(
+        "Claim [4, 2]. Other[4][2].",
+        [source(1), source(2), source(3), source(4)],
+        strict,
+      );
+      expect(result.content).toBe("Claim [1, 2]. Other[1][2].");
+    });
+  });
+
+  describe("dangling references", () => {
+    it("should remove markers pointing past the last source", () => {
+      const result = processCitations("Fact [1][7]. Other [7].", [source(1)], strict);
+      expect(result.content).toBe("Fact [1]. Other .");
+      expect(result.danglingCitations).toEqual([7]);
+    });
+
+    it("should flag dangling markers with a question mark when configured", () => {
+      const result = processCitations("Fact [1]. Other [7].", [source(1)], lenient);
+      expect(result.content).toBe("Fact [1]. Other [7?].");
+      expect(result.danglingCitations).toEqual([7]);
+    });
+
+    it("should keep valid numbers from a mixed marker", () => {
+      const result = processCitations("Fact [1, 9].", [source(1)], strict);
+      expect(result.content).toBe("Fact [1].");
+      expect(result.danglingCitations).toEqual([9]);
+    });
+  });
+
+  describe("uncited sources", () => {
+    it("should drop uncited sources when configured", () => {
+      const result = processCitations("Only [2].", [source(1), source(2), source(3)], strict);
+      expect(result.content).toBe("Only [1].");
+      expect(result.sources).toEqual([{ ...source(2), index: 1 }]);
+    });
+
+    it("should keep uncited sources after cited ones when configured", () => {
+      const result = processCitations("Only [2].", [source(1), source(2), source(3)], lenient);
+      expect(result.sources.map((s) => [s.index, s.title])).toEqual([
+        [1, "Source 2"],
+        [2, "Source 1"],
+        [3, "Source 3"],
+      ]);
+    });
+
+    it("should keep all sources when the answer cites none", () => {
+      const result = processCitations("Not found in available sources", [source(1)], strict);
+      expect(result.sources).toEqual([source(1)]);
+    });
+  });
+
+  describe("duplicate sources", () => {
+    it("should merge sources with the same URL and rewrite their markers", () => {
+      const result = processCitations(
+        "A [1]. B [2]. C [3].",
+        [
+          source(1, "https://nodejs.org/api/fs.html"),
+          source(2, "https://NodeJS.org/api/fs.html#promises"),
+          source(3, "https://github.com/nodejs/node"),
+        ],
+        strict,
+      );
+      expect(result.content).toBe("A [1]. B [1]. C [2].");
+      expect(result.sources.map((s) => [s.index, s.url])).toEqual([
+        [1, "https://nodejs.org/api/fs.html"],
+        [2, "https://github.com/nodejs/node"],
+      ]);
+    });
+
+    it("should collapse repeated markers in a run after merging", () => {
+      const result = processCitations(
+        "A [1][2].",
+        [source(1, "https://a.dev/"), source(2, "https://a.dev")],
+        strict,
+      );
+      expect(result.content).toBe("A [1].");
+    });
+  });
+
+  describe("non-citation brackets", () => {
+    it("should not rewrite code blocks or inline code", () => {
+      const input = "Use `items[3]` [2].\n```ts\nconst x = list[1];\n```";
+      const result = processCitations(input, [source(1), source(2)], strict);
+      expect(result.content).toBe("Use `items[3]` [1].\n```ts\nconst x = list[1];\n```");
+    });
+
+    it("should not treat markdown links or years as citations", () => {
+      const input = "See [1](https://a.dev) and the [2024] survey [1].";
+      const result = processCitations(input, [source(1)], strict);
+      expect(result.content).toBe(input);
+      expect(result.danglingCitations).toEqual([]);
+    });
+  });
+});
+
+describe("mergeCitations", () => {
+  it("should share one numbering for sources cited by several answers", () => {
+    const result = mergeCitations([
+      { content: "A [1][2].", sources: [source(1, "https://a.com"), source(2, "https://b.com")] },
+      {
+        content: "B [1], C [2].",
+        sources: [source(1, "https://c.com"), source(2, "https://a.com/")],
+      },
+    ]);
+    expect(result.contents).toEqual(["A [1][2].", "B [3], C [1]."]);
+    expect(result.sources.map((s) => [s.index, s.url])).toEqual([
+      [1, "https://a.com"],
+      [2, "https://b.com"],
+      [3, "https://c.com"],
+    ]);
+  });
+
+  it("should leave markers without a matching source and code untouched", () => {
+    const result = mergeCitations([
+      { content: "Skip", sources: [source(1, "https://a.com")] },
+      { content: "X [1] [4] `list[1]`", sources: [source(1, "https://b.com")] },
+    ]);
+    expect(result.contents[1]).toBe("X [2] [4] `list[1]`");
+  });
+});
@@ -0,0 +1,191 @@
+import type { Source } from "./schemas.js";
+
+/**
+ * How the citation post-processor treats dangling and uncited references
+ */
+export interface CitationOptions {
+  /** "remove" strips markers that point to no source; "flag" rewrites them as "[n?]" */
+  dangling: "remove" | "flag";
+  /** Drop sources the answer never cites (only when it cites at least one) */
+  dropUncited: boolean;
+}
+
+/**
+ * Answer text and sources after citation post-processing
+ */
+export interface ProcessedCitations {
+  content: string;
+  sources: Source[];
+  /** Original numbers of markers that referenced no source */
+  danglingCitations: number[];
+}
+
+/**
+ * Answers from several completions that share one merged Sources list
+ */
+export interface MergedCitations {
+  contents: string[];
+  sources: Source[];
+}
+
+/**
+ * Matches fenced code blocks and inline code spans, which are never rewritten.
+ */
+const CODE = /(```[\s\S]*?```|`[^`\n]*`)/u;
+
+/**
+ * Matches a citation marker such as "[3]" or "[1, 4]", but not a markdown link
+ * "[1](url)". Numbers are limited to two digits so "[2024]" is left alone.
+ */
+const MARKER = /\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\](?!\()/gu;
+
+/**
+ * Matches a run of adjacent markers, e.g. "[1][2]", after renumbering.
+ */
+const MARKER_RUN = /(?:\[\d+(?:,\s*\d+)*\])+/gu;
+
+/**
+ * Normalizes a URL for de-duplication: lower-cased host, no fragment,
+ * no trailing slash. Unparseable URLs are compared as-is.
+ */
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.toString().replace(/\/$/u, "");
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * Applies a function to the prose parts of the content, leaving code untouched.
+ */
+function mapProse(content: string, transform: (prose: string) => string): string {
+  return content
+    .split(CODE)
+    .map((part, index) => (index % 2 === 0 ? transform(part) : part))
+    .join("");
+}
+
+/**
+ * Post-processes inline [n] citations against the numbered sources:
+ * 1. Sources sharing a URL are merged, and their markers point to one entry.
+ * 2. Markers referencing no source are removed or flagged (options.dangling).
+ * 3. Uncited sources are dropped (options.dropUncited), unless nothing is cited.
+ * 4. Sources are renumbered 1..n in order of first citation, uncited ones last,
+ *    and markers are rewritten to match. Repeated numbers in a run such as
+ *    "[1][1]" collapse to one marker.
+ * Code blocks and inline code are never rewritten, so "array[0]" survives.
+ *
+ * @param {string} content - The think-stripped answer text
+ * @param {Source[]} sources - Sources numbered as the API returned them
+ * @param {CitationOptions} options - Dangling and uncited source handling
+ * @returns {ProcessedCitations} Rewritten content, renumbered sources, dangling numbers
+ */
+export function processCitations(
+  content: string,
+  sources: Source[],
+  options: CitationOptions,
+): ProcessedCitations {
+  // Map each original number to the first source with the same URL
+  const canonicalByUrl = new Map<string, Source>();
+  const canonicalByIndex = new Map<number, Source>();
+  for (const source of sources) {
+    const key = normalizeUrl(source.url);
+    const canonical = canonicalByUrl.get(key) ?? source;
+    canonicalByUrl.set(key, canonical);
+    canonicalByIndex.set(source.index, canonical);
+  }
+
+  // Assign new numbers in order of first citation
+  const newIndex = new Map<Source, number>();
+  const dangling = new Set<number>();
+  mapProse(content, (prose) => {
+    for (const match of prose.matchAll(MARKER)) {
+      for (const number of (match[1] ?? "").split(",").map(Number)) {
+        const source = canonicalByIndex.get(number);
+        if (!source) {
+          dangling.add(number);
+        } else if (!newIndex.has(source)) {
+          newIndex.set(source, newIndex.size + 1);
+        }
+      }
+    }
+    return prose;
+  });
+
+  const keepUncited = !options.dropUncited || newIndex.size === 0;
+  if (keepUncited) {
+    for (const source of canonicalByUrl.values()) {
+      if (!newIndex.has(source)) {
+        newIndex.set(source, newIndex.size + 1);
+      }
+    }
+  }
+
+  const rewritten = mapProse(content, (prose) =>
+    prose
+      .replaceAll(MARKER, (_marker, numbers: string) => {
+        const renumbered = numbers.split(",").flatMap((value) => {
+          const number = Number(value);
+          const source = canonicalByIndex.get(number);
+          if (source) {
+            return [String(newIndex.get(source))];
+          }
+          return options.dangling === "flag" ? [`${number}?`] : [];
+        });
+        return renumbered.length > 0 ? `[${renumbered.join(", ")}]` : "";
+      })
+      .replaceAll(MARKER_RUN, (run) => {
+        const seen = new Set<string>();
+        return run.replaceAll(/\[([^\]]+)\]/gu, (marker, number: string) => {
+          if (seen.has(number)) {
+            return "";
+          }
+          seen.add(number);
+          return marker;
+        });
+      }),
+  );
+
+  const renumberedSources = [...newIndex]
+    .map(([source, index]) => ({ ...source, index }))
+    .toSorted((a, b) => a.index - b.index);
+
+  return {
+    content: rewritten,
+    sources: renumberedSources,
+    danglingCitations: [...dangling].toSorted((a, b) => a - b),
+  };
+}
+
+/**
+ * Merges the sources of several answers into one list, de-duplicated by URL
+ * and numbered in order of appearance, and rewrites each answer's [n] markers
+ * to point into the merged list.
+ *
+ * @param {Array<{ content: string; sources: Source[] }>} results - Answers with their own numbering
+ * @returns {MergedCitations} Rewritten answers, in input order, and the merged sources
+ */
+export function mergeCitations(results: { content: string; sources: Source[] }[]): MergedCitations {
+  const merged = new Map<string, Source>();
+  const contents = results.map(({ content, sources }) => {
+    const mapping = new Map<number, number>();
+    for (const source of sources) {
+      const key = normalizeUrl(source.url);
+      const existing = merged.get(key) ?? { ...source, index: merged.size + 1 };
+      merged.set(key, existing);
+      mapping.set(source.index, existing.index);
+    }
+    return mapProse(content, (prose) =>
+      prose.replaceAll(MARKER, (marker, numbers: string) => {
+        const renumbered = numbers.split(",").map((value) => mapping.get(Number(value)));
+        return renumbered.every((number) => number !== undefined)
+          ? `[${renumbered.join(", ")}]`
+          : marker;
+      }),
+    );
+  });
+  return { contents, sources: [...merged.values()] };
+}
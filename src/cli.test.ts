@@ -0,0 +1,147 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isCommand, runCommand } from "./cli.ts";
+
+// Replays the recorded API traffic in test/fixtures; nothing reaches the network
+const FIXTURES_DIR = fileURLToPath(new URL("../test/fixtures", import.meta.url));
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "perplexity-cli-"));
+  vi.stubEnv("PERPLEXITY_FIXTURES_MODE", "replay");
+  vi.stubEnv("PERPLEXITY_FIXTURES_DIR", FIXTURES_DIR);
+  vi.stubEnv("XDG_CONFIG_HOME", directory);
+  vi.stubEnv("PERPLEXITY_CACHE_DIR", path.join(directory, "cache"));
+  vi.stubEnv("PERPLEXITY_HISTORY_DIR", path.join(directory, "history"));
+  vi.stubEnv("PERPLEXITY_JOBS_DIR", path.join(directory, "jobs"));
+  vi.stubEnv("PERPLEXITY_USAGE_DIR", path.join(directory, "usage"));
+  vi.stubGlobal("fetch", vi.fn<typeof fetch>());
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("isCommand", () => {
+  it("should recognize the subcommands only", () => {
+    expect(isCommand("lookup")).toBe(true);
+    expect(isCommand("doctor")).toBe(true);
+    expect(isCommand("--http")).toBe(false);
+    expect(isCommand(undefined)).toBe(false);
+  });
+});
+
+describe("runCommand", () => {
+  it("should print the lookup answer with its sources", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const code = await runCommand("lookup", [
+      "What is the default timeout for fetch() in Node.js?",
+    ]);
+
+    expect(code).toBe(0);
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /^Node\.js fetch\(\) has no overall timeout by default \[1\].*\n\nSources:\n\[1\] Node\.js fetch documentation/su,
+      ),
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should print the structured result with --json", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const code = await runCommand("answer", [
+      "--json",
+      "Should I use zod or valibot for form validation?",
+    ]);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(String(logSpy.mock.calls[0]?.[0]))).toMatchObject({
+      sources: [{ index: 1, title: "Valibot comparison" }],
+    });
+  });
+
+  it("should exit with 1 when the tool fails", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const code = await runCommand("lookup", ["A question nobody recorded a fixture for"]);
+
+    expect(code).toBe(1);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("FixtureError"));
+  });
+
+  it("should exit with 1 and print the error when the tool call itself fails", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(Client.prototype, "callTool").mockRejectedValue(new TypeError("Unexpected failure"));
+
+    const code = await runCommand("answer", ["Should I use zod or valibot for form validation?"]);
+
+    expect(code).toBe(1);
+    expect(errorSpy).toHaveBeenCalledWith("Error: Unexpected failure");
+  });
+
+  it("should report content blocks other than text instead of printing them", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    // The last block is malformed, as a misbehaving server might send it
+    vi.spyOn(Client.prototype, "callTool").mockResolvedValue({
+      content: [
+        { type: "text", text: "See the diagram." },
+        { type: "image", data: "aGVsbG8=", mimeType: "image/png" },
+        { type: "chart" },
+      ],
+    } as unknown as Awaited<ReturnType<Client["callTool"]>>);
+
+    const code = await runCommand("answer", ["Should I use zod or valibot for form validation?"]);
+
+    expect(code).toBe(0);
+    expect(logSpy).toHaveBeenCalledWith(
+      "See the diagram.\n[image content not shown]\n[unrecognized content block]",
+    );
+  });
+
+  it("should exit with 2 for a missing question or an unknown option", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await runCommand("answer", [])).toBe(2);
+    expect(errorSpy).toHaveBeenLastCalledWith(
+      expect.stringMatching(/^Error: answer needs a question\n\nUsage: /u),
+    );
+    expect(await runCommand("lookup", ["--verbose", "query"])).toBe(2);
+    expect(errorSpy).toHaveBeenLastCalledWith(expect.stringContaining("--verbose"));
+    expect(await runCommand("doctor", ["--endpoint", "not a url"])).toBe(2);
+  });
+
+  it("should print command help and exit with 0", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    expect(await runCommand("doctor", ["--help"])).toBe(0);
+    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining("--check-models"));
+  });
+
+  it("should exit with 1 when a doctor check fails", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.stubEnv("PERPLEXITY_API_KEY", "pplx-test-key-123456");
+    vi.mocked(fetch).mockRejectedValue(new TypeError("fetch failed"));
+
+    const code = await runCommand("doctor", ["--json"]);
+
+    expect(code).toBe(1);
+    expect(JSON.parse(String(logSpy.mock.calls[0]?.[0]))).toMatchObject({
+      passed: false,
+      checks: [
+        { name: "Configuration", status: "ok" },
+        { name: "API key", status: "ok" },
+        { name: "Endpoint", status: "fail" },
+      ],
+    });
+  });
+});
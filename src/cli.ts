@@ -0,0 +1,245 @@
+import { parseArgs } from "node:util";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ContentBlockSchema } from "@modelcontextprotocol/sdk/types.js";
+import packageJson from "../package.json" with { type: "json" };
+import { loadConfig } from "./config.js";
+import { formatDoctorReport, runDoctor } from "./doctor.js";
+import { resolveFixtureSettings } from "./record-replay.js";
+import { createServer } from "./server.js";
+
+/** Exit code for a failed tool call or doctor check, or an invalid setup */
+const EXIT_FAILURE = 1;
+/** Exit code for invalid command-line arguments */
+const EXIT_USAGE = 2;
+
+const COMMANDS = ["lookup", "answer", "doctor"] as const;
+type Command = (typeof COMMANDS)[number];
+
+export const USAGE = `
+Usage: ${packageJson.name} [options]
+       ${packageJson.name} <command> [options]
+
+Starts the MCP server on stdio, or runs a command in the terminal.
+
+Commands:
+  lookup <query>      Run the lookup tool and print the answer
+  answer <question>   Run the answer tool and print the answer
+  doctor              Check the configuration, API key, endpoint and models
+
+Server options:
+  --http              Serve MCP over Streamable HTTP instead of stdio
+  --port <port>       HTTP port (default: 3000)
+  --host <host>       HTTP host (default: 127.0.0.1)
+  --record <dir>      Record API traffic to fixture files in <dir>
+  --replay <dir>      Serve recorded fixtures from <dir> instead of calling the API
+  -v, --version       Print the version
+  -h, --help          Print this help
+
+Run "${packageJson.name} <command> --help" for the options of a command.
+`.trim();
+
+const ASK_USAGE = (command: "lookup" | "answer") =>
+  `
+Usage: ${packageJson.name} ${command} [options] <${command === "lookup" ? "query" : "question"}>
+
+Runs the ${command} tool with the server's configuration and prints the answer with its sources.
+
+Options:
+  --json              Print the structured result as JSON
+  --fresh             Bypass the response cache
+  --follow-ups        Ask for suggested follow-up questions
+  -h, --help          Print this help
+
+Exit codes: 0 answered, 1 the tool failed, 2 invalid arguments.
+`.trim();
+
+const DOCTOR_USAGE = `
+Usage: ${packageJson.name} doctor [options]
+
+Checks that the configuration loads, PERPLEXITY_API_KEY is set and the endpoint
+is reachable. With --check-models, it also checks that every configured model is
+available; each model check sends one minimal request, billed like any other.
+
+Options:
+  --endpoint <url>    URL to probe for connectivity (default: the chat completions endpoint)
+  --check-models      Send a billed request to each configured model
+  --json              Print the checks as JSON
+  -h, --help          Print this help
+
+Exit codes: 0 all checks passed (warnings allowed), 1 a check failed, 2 invalid arguments.
+`.trim();
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Renders the content of a tool result for the terminal. Text blocks are
+ * printed as-is; other blocks are reported by type, since they cannot be shown.
+ *
+ * @param {unknown} content - The content array of a tool result
+ * @returns {string} The text to print
+ */
+function renderContent(content: unknown): string {
+  return (Array.isArray(content) ? content : [])
+    .map((block: unknown) => {
+      const parsed = ContentBlockSchema.safeParse(block);
+      if (!parsed.success) {
+        return "[unrecognized content block]";
+      }
+      return parsed.data.type === "text"
+        ? parsed.data.text
+        : `[${parsed.data.type} content not shown]`;
+    })
+    .join("\n");
+}
+
+/**
+ * Whether the first command-line argument names a subcommand.
+ *
+ * @param {string | undefined} argument - The first argument after the script
+ * @returns {boolean} True for lookup, answer and doctor
+ */
+export function isCommand(argument: string | undefined): argument is Command {
+  return COMMANDS.some((command) => command === argument);
+}
+
+/**
+ * Parses command arguments, printing the error and usage on failure.
+ */
+function parseCommandArgs<const T extends NonNullable<Parameters<typeof parseArgs>[0]>["options"]>(
+  args: string[],
+  options: T,
+  usage: string,
+) {
+  try {
+    return parseArgs({ args, options, allowPositionals: true, strict: true });
+  } catch (error) {
+    console.error(`Error: ${errorMessage(error)}\n\n${usage}`);
+    return undefined;
+  }
+}
+
+/**
+ * Runs lookup or answer through an in-process MCP server, so the terminal
+ * gets exactly what an MCP client would.
+ */
+async function runAskCommand(command: "lookup" | "answer", args: string[]): Promise<number> {
+  const usage = ASK_USAGE(command);
+  const parsed = parseCommandArgs(
+    args,
+    {
+      json: { type: "boolean" },
+      fresh: { type: "boolean" },
+      "follow-ups": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+    usage,
+  );
+  if (!parsed) {
+    return EXIT_USAGE;
+  }
+  if (parsed.values.help) {
+    console.log(usage);
+    return 0;
+  }
+  const text = parsed.positionals.join(" ").trim();
+  if (!text) {
+    console.error(
+      `Error: ${command} needs a ${command === "lookup" ? "query" : "question"}\n\n${usage}`,
+    );
+    return EXIT_USAGE;
+  }
+
+  let config;
+  try {
+    if (!process.env.PERPLEXITY_API_KEY && resolveFixtureSettings()?.mode !== "replay") {
+      console.error("Error: PERPLEXITY_API_KEY environment variable is required");
+      return EXIT_FAILURE;
+    }
+    config = await loadConfig();
+  } catch (error) {
+    console.error(`Error: ${errorMessage(error)}`);
+    return EXIT_FAILURE;
+  }
+
+  const server = createServer(config);
+  const client = new Client({ name: `${packageJson.name}-cli`, version: packageJson.version });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  try {
+    const result = await client.callTool({
+      name: command,
+      arguments: {
+        [command === "lookup" ? "query" : "question"]: text,
+        fresh: parsed.values.fresh,
+        follow_ups: parsed.values["follow-ups"],
+      },
+    });
+    const output = renderContent(result.content);
+    if (result.isError) {
+      console.error(parsed.values.json ? JSON.stringify({ error: output }, null, 2) : output);
+      return EXIT_FAILURE;
+    }
+    console.log(parsed.values.json ? JSON.stringify(result.structuredContent, null, 2) : output);
+    return 0;
+  } catch (error) {
+    // Failures that are not tool results, e.g. protocol errors or unexpected exceptions
+    console.error(`Error: ${errorMessage(error)}`);
+    return EXIT_FAILURE;
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Runs the doctor checks and prints the report.
+ */
+async function runDoctorCommand(args: string[]): Promise<number> {
+  const parsed = parseCommandArgs(
+    args,
+    {
+      endpoint: { type: "string" },
+      "check-models": { type: "boolean" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+    DOCTOR_USAGE,
+  );
+  if (!parsed) {
+    return EXIT_USAGE;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(DOCTOR_USAGE);
+    return 0;
+  }
+  if (positionals.length > 0) {
+    console.error(`Error: Unexpected argument "${positionals[0]}"\n\n${DOCTOR_USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (values.endpoint !== undefined && !URL.canParse(values.endpoint)) {
+    console.error(`Error: --endpoint must be a URL, got "${values.endpoint}"`);
+    return EXIT_USAGE;
+  }
+
+  const checks = await runDoctor({
+    endpoint: values.endpoint,
+    checkModels: values["check-models"],
+  });
+  const passed = checks.every((check) => check.status !== "fail");
+  console.log(
+    values.json ? JSON.stringify({ passed, checks }, null, 2) : formatDoctorReport(checks),
+  );
+  return passed ? 0 : EXIT_FAILURE;
+}
+
+/**
+ * Runs a terminal subcommand.
+ *
+ * @param {Command} command - lookup, answer or doctor
+ * @param {string[]} args - The arguments after the command name
+ * @returns {Promise<number>} The process exit code: 0 on success, 1 on failure, 2 for invalid arguments
+ */
+export async function runCommand(command: Command, args: string[]): Promise<number> {
+  return command === "doctor" ? runDoctorCommand(args) : runAskCommand(command, args);
+}
@@ -0,0 +1,38 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency } from "./concurrency.ts";
+
+describe("mapWithConcurrency", () => {
+  it("should keep input order and never exceed the limit", async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await sleep(delay);
+      active -= 1;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  it("should reject with the first error and start no further items", async () => {
+    const started: number[] = [];
+    const promise = mapWithConcurrency([1, 2, 3, 4], 1, async (item) => {
+      started.push(item);
+      if (item === 2) {
+        throw new Error("boom");
+      }
+      return item;
+    });
+
+    await expect(promise).rejects.toThrow("boom");
+    expect(started).toEqual([1, 2]);
+  });
+
+  it("should resolve an empty list", async () => {
+    await expect(mapWithConcurrency([], 3, async () => 1)).resolves.toEqual([]);
+  });
+});
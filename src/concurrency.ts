@@ -0,0 +1,35 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight.
+ * Results keep the input order. Rejects with the first error, after which no
+ * further items are started.
+ *
+ * @param {T[]} items - The items to map
+ * @param {number} limit - Maximum number of concurrent calls (at least 1)
+ * @param {(item: T, index: number) => Promise<R>} mapper - The async mapping function
+ * @returns {Promise<R[]>} The mapped results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = Array.from({ length: items.length });
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next;
+      next += 1;
+      try {
+        results[index] = await mapper(items[index] as T, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
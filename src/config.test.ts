@@ -0,0 +1,354 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  loadConfig,
+  resolveCacheLimits,
+  resolveLoggingSettings,
+  resolveProviderSettings,
+  resolveRateLimitSettings,
+  resolveReasoningSettings,
+  resolveRedactionSettings,
+  resolveSourceAuthoritySettings,
+  resolveToolSettings,
+  resolveUsageSettings,
+} from "./config.ts";
+import { ConfigError } from "./errors.ts";
+import { buildLookupSystemPrompt } from "./prompts.ts";
+
+let root: string;
+let projectDirectory: string;
+let env: NodeJS.ProcessEnv;
+
+const writeJson = async (filePath: string, value: unknown) => {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(value));
+};
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), "perplexity-config-"));
+  projectDirectory = path.join(root, "project");
+  await mkdir(projectDirectory);
+  env = { XDG_CONFIG_HOME: path.join(root, "config-home") };
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("loadConfig", () => {
+  it("should return built-in defaults when no config exists", async () => {
+    const config = await loadConfig(projectDirectory, env);
+    expect(resolveToolSettings(config, "lookup")).toEqual({
+      model: "sonar-pro",
+      searchContextSize: "medium",
+      system: buildLookupSystemPrompt(),
+      timeoutMs: 60_000,
+      cacheTtlMs: 86_400_000,
+      searchFilters: {},
+      priority: "high",
+      relatedQuestions: false,
+    });
+  });
+
+  it("should merge user, project and environment settings in precedence order", async () => {
+    await writeJson(path.join(root, "config-home", "perplexity-agent-mcp", "config.json"), {
+      maxRetries: 5,
+      tools: { lookup: { model: "sonar", searchContextSize: "low" } },
+    });
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      tools: { lookup: { searchContextSize: "high" } },
+    });
+    env.PERPLEXITY_LOOKUP_TIMEOUT_MS = "1000";
+
+    const config = await loadConfig(projectDirectory, env);
+    expect(config.maxRetries).toBe(5);
+    expect(resolveToolSettings(config, "lookup")).toMatchObject({
+      model: "sonar",
+      searchContextSize: "high",
+      timeoutMs: 1000,
+    });
+  });
+
+  it("should read the project file named by PERPLEXITY_CONFIG", async () => {
+    await writeJson(path.join(projectDirectory, "custom.json"), {
+      tools: { answer: { model: "sonar-deep-research" } },
+    });
+    env.PERPLEXITY_CONFIG = "custom.json";
+
+    const config = await loadConfig(projectDirectory, env);
+    expect(resolveToolSettings(config, "answer").model).toBe("sonar-deep-research");
+  });
+
+  it("should reject invalid values with the offending path", async () => {
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      tools: { lookup: { searchContextSize: "huge" } },
+    });
+
+    const error = await loadConfig(projectDirectory, env).catch((error_: unknown) => error_);
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as Error).message).toContain("tools.lookup.searchContextSize");
+  });
+
+  it("should reject unknown keys and malformed JSON", async () => {
+    const configPath = path.join(projectDirectory, ".perplexity-agent-mcp.json");
+    await writeJson(configPath, { tool: {} });
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(/Invalid configuration/u);
+
+    await writeFile(configPath, "{ not json");
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(/Invalid JSON/u);
+  });
+
+  it("should reject global and per-tool search filters that conflict once merged", async () => {
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      searchFilters: { includeDomains: Array.from({ length: 15 }, (_, index) => `a${index}.com`) },
+      tools: {
+        answer: {
+          searchFilters: { excludeDomains: Array.from({ length: 6 }, (_, i) => `b${i}.com`) },
+        },
+      },
+    });
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(
+      /tools\.answer\.searchFilters/u,
+    );
+  });
+
+  it("should reject invalid environment overrides", async () => {
+    env.PERPLEXITY_ANSWER_TIMEOUT_MS = "soon";
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(/environment variables/u);
+  });
+});
+
+describe("resolveToolSettings", () => {
+  it("should append authoritative sources guidance to the built-in prompt", () => {
+    const settings = resolveToolSettings(
+      { authoritativeSources: "- Prefer https://docs.internal.example.com" },
+      "answer",
+    );
+    expect(settings.system).toContain("## Organization-Specific Sources");
+    expect(settings.system).toContain("https://docs.internal.example.com");
+  });
+
+  it("should replace the prompt entirely when systemPrompt is set", () => {
+    const settings = resolveToolSettings(
+      { authoritativeSources: "ignored", tools: { lookup: { systemPrompt: "Custom prompt" } } },
+      "lookup",
+    );
+    expect(settings.system).toBe("Custom prompt");
+  });
+});
+
+describe("resolveUsageSettings", () => {
+  it("should merge configured prices over the built-in price table", () => {
+    const settings = resolveUsageSettings({
+      usage: {
+        prices: {
+          "sonar-pro": {
+            inputPerMillionTokens: 1,
+            outputPerMillionTokens: 2,
+            perThousandRequests: 0,
+          },
+          "my-model": {
+            inputPerMillionTokens: 5,
+            outputPerMillionTokens: 5,
+            perThousandRequests: 5,
+          },
+        },
+        dailyBudgetUsd: 10,
+      },
+    });
+    expect(settings.prices["sonar-pro"]?.inputPerMillionTokens).toBe(1);
+    expect(settings.prices["my-model"]).toBeDefined();
+    expect(settings.prices["sonar-reasoning-pro"]).toBeDefined();
+    expect(settings.dailyBudgetUsd).toBe(10);
+    expect(settings.sessionBudgetUsd).toBeUndefined();
+  });
+});
+
+describe("resolveProviderSettings", () => {
+  it("should default to Perplexity and read the base URL from the environment", async () => {
+    expect(resolveProviderSettings(await loadConfig(projectDirectory, env))).toEqual({
+      type: "perplexity",
+      baseUrl: undefined,
+    });
+
+    env.PERPLEXITY_BASE_URL = "https://gateway.internal/pplx";
+    expect(resolveProviderSettings(await loadConfig(projectDirectory, env)).baseUrl).toBe(
+      "https://gateway.internal/pplx",
+    );
+  });
+
+  it("should reject a base URL from the project-local file", async () => {
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      provider: { type: "openai-compatible", baseUrl: "https://collector.example.com/v1" },
+    });
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(
+      /provider\.baseUrl can only be set in the user-level config file/u,
+    );
+
+    await writeJson(path.join(root, "config-home", "perplexity-agent-mcp", "config.json"), {
+      provider: { baseUrl: "https://gateway.internal/pplx" },
+    });
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      provider: { type: "openai-compatible" },
+    });
+    expect(resolveProviderSettings(await loadConfig(projectDirectory, env))).toEqual({
+      type: "openai-compatible",
+      baseUrl: "https://gateway.internal/pplx",
+    });
+  });
+
+  it("should require a base URL for the openai-compatible provider", async () => {
+    env.PERPLEXITY_PROVIDER = "openai-compatible";
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(/provider\.baseUrl/u);
+  });
+});
+
+describe("resolveRateLimitSettings", () => {
+  it("should fill model entries from the default limits", async () => {
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      rateLimits: {
+        default: { maxConcurrency: 2 },
+        models: { "sonar-reasoning-pro": { requestsPerMinute: 10 } },
+      },
+    });
+
+    expect(resolveRateLimitSettings(await loadConfig(projectDirectory, env))).toEqual({
+      defaults: { requestsPerMinute: 50, maxConcurrency: 2 },
+      models: { "sonar-reasoning-pro": { requestsPerMinute: 10, maxConcurrency: 2 } },
+      maxQueueSize: 50,
+    });
+  });
+
+  it("should reject fewer than one request per minute", async () => {
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      rateLimits: { models: { "sonar-deep-research": { requestsPerMinute: 0.5 } } },
+    });
+
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(/requestsPerMinute/u);
+  });
+});
+
+describe("resolveCacheLimits", () => {
+  it("should default to 500 entries and read PERPLEXITY_CACHE_MAX_ENTRIES", async () => {
+    expect(resolveCacheLimits(await loadConfig(projectDirectory, env))).toEqual({
+      maxEntries: 500,
+    });
+
+    env.PERPLEXITY_CACHE_MAX_ENTRIES = "20";
+    expect(resolveCacheLimits(await loadConfig(projectDirectory, env))).toEqual({
+      maxEntries: 20,
+    });
+  });
+
+  it("should reject an invalid PERPLEXITY_CACHE_MAX_ENTRIES at startup", async () => {
+    env.PERPLEXITY_CACHE_MAX_ENTRIES = "-1";
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(/cache\.maxEntries/u);
+  });
+});
+
+describe("resolveLoggingSettings", () => {
+  it("should default to info and resolve the trace file against the working directory", async () => {
+    expect(resolveLoggingSettings(await loadConfig(projectDirectory, env), "/work")).toEqual({
+      level: "info",
+      traceFile: undefined,
+    });
+
+    env.PERPLEXITY_LOG_LEVEL = "debug";
+    env.PERPLEXITY_TRACE_FILE = "logs/trace.jsonl";
+    expect(resolveLoggingSettings(await loadConfig(projectDirectory, env), "/work")).toEqual({
+      level: "debug",
+      traceFile: path.resolve("/work", "logs/trace.jsonl"),
+    });
+  });
+
+  it("should reject a trace file from the project-local file", async () => {
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      logging: { traceFile: "../../.bashrc" },
+    });
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(
+      /logging\.traceFile can only be set in the user-level config file/u,
+    );
+  });
+
+  it("should reject unknown log levels", async () => {
+    env.PERPLEXITY_LOG_LEVEL = "verbose";
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(/logging\.level/u);
+  });
+});
+
+describe("resolveRedactionSettings", () => {
+  it("should mask by default and compile custom patterns", async () => {
+    expect(resolveRedactionSettings(await loadConfig(projectDirectory, env))).toEqual({
+      mode: "mask",
+      customPatterns: [],
+    });
+
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      redaction: { patterns: { "internal-host": String.raw`\b[\w-]+\.corp\.example\.com\b` } },
+    });
+    env.PERPLEXITY_REDACTION_MODE = "strict";
+    const settings = resolveRedactionSettings(await loadConfig(projectDirectory, env));
+    expect(settings.mode).toBe("strict");
+    expect(settings.customPatterns).toEqual([
+      { name: "internal-host", pattern: /\b[\w-]+\.corp\.example\.com\b/gu },
+    ]);
+  });
+
+  it("should reject invalid custom patterns", async () => {
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      redaction: { patterns: { broken: "(unclosed" } },
+    });
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(
+      /redaction\.patterns\.broken: Invalid regular expression/u,
+    );
+  });
+});
+
+describe("resolveSourceAuthoritySettings", () => {
+  it("should not retry by default and order rules most specific first", async () => {
+    expect(resolveSourceAuthoritySettings(await loadConfig(projectDirectory, env))).toEqual({
+      rules: [],
+      retryLowAuthority: false,
+    });
+
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      sourceAuthority: {
+        rules: { "github.com": "community", "github.com/my-org/handbook": "official" },
+        retryLowAuthority: true,
+      },
+    });
+    expect(resolveSourceAuthoritySettings(await loadConfig(projectDirectory, env))).toEqual({
+      rules: [
+        { match: "github.com/my-org/handbook", tier: "official" },
+        { match: "github.com", tier: "community" },
+      ],
+      retryLowAuthority: true,
+    });
+  });
+
+  it("should reject rules that are not a domain or URL prefix", async () => {
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      sourceAuthority: { rules: { "https://example.com": "official" } },
+    });
+    await expect(loadConfig(projectDirectory, env)).rejects.toThrow(/sourceAuthority\.rules/u);
+  });
+});
+
+describe("resolveReasoningSettings", () => {
+  it("should keep reasoning private by default and read the configured limit", async () => {
+    expect(resolveReasoningSettings(await loadConfig(projectDirectory, env))).toEqual({
+      disclose: false,
+      maxLength: 1200,
+    });
+
+    await writeJson(path.join(projectDirectory, ".perplexity-agent-mcp.json"), {
+      reasoning: { disclose: true, maxLength: 400 },
+    });
+    expect(resolveReasoningSettings(await loadConfig(projectDirectory, env))).toEqual({
+      disclose: true,
+      maxLength: 400,
+    });
+  });
+});
@@ -0,0 +1,713 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { LoggingLevelSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { CitationOptions } from "./citations.js";
+import { ConfigError } from "./errors.js";
+import type { HistoryLimits } from "./history-store.js";
+import type { LoggingSettings } from "./logging.js";
+import {
+  buildAnswerSystemPrompt,
+  buildDeepResearchSystemPrompt,
+  buildLookupSystemPrompt,
+  buildVerifySystemPrompt,
+} from "./prompts.js";
+import type { ProviderSettings } from "./providers/provider.js";
+import type { RateLimitSettings, RequestPriority } from "./rate-limiter.js";
+import type { RedactionSettings } from "./redaction.js";
+import type { CacheLimits } from "./response-cache.js";
+import { AuthorityTier, SearchFilters } from "./schemas.js";
+import type { SessionLimits } from "./session-store.js";
+import type { SourceAuthoritySettings } from "./source-authority.js";
+import { mergeSearchFilters } from "./search-filters.js";
+import type { UsageSettings } from "./usage-tracker.js";
+
+const PROJECT_CONFIG_FILE = ".perplexity-agent-mcp.json";
+
+/**
+ * Schema for per-tool settings in the config file
+ */
+const ToolConfig = z.strictObject({
+  model: z.string().min(1).optional(),
+  searchContextSize: z.enum(["low", "medium", "high"]).optional(),
+  /** Replaces the built-in system prompt entirely */
+  systemPrompt: z.string().min(1).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  /** 0 disables caching for the tool */
+  cacheTtlMs: z.number().int().nonnegative().optional(),
+  searchFilters: SearchFilters.optional(),
+  /** Ask for related questions and return them as follow-ups (lookup and answer) */
+  relatedQuestions: z.boolean().optional(),
+});
+
+/**
+ * Schema for a model's price entry, in USD
+ */
+const ModelPrice = z.strictObject({
+  inputPerMillionTokens: z.number().nonnegative(),
+  outputPerMillionTokens: z.number().nonnegative(),
+  perThousandRequests: z.number().nonnegative(),
+});
+
+/**
+ * Schema for a model's client-side rate limit
+ */
+const ModelRateLimit = z.strictObject({
+  // The bucket holds at most requestsPerMinute tokens and a request takes one
+  requestsPerMinute: z.number().min(1).optional(),
+  maxConcurrency: z.number().int().positive().optional(),
+});
+
+/**
+ * Schema for a custom redaction pattern: a regular expression source,
+ * compiled with the global and unicode flags
+ */
+const RedactionPattern = z
+  .string()
+  .min(1)
+  .refine(
+    (source) => {
+      try {
+        return Boolean(new RegExp(source, "gu"));
+      } catch {
+        return false;
+      }
+    },
+    { message: "Invalid regular expression" },
+  );
+
+/**
+ * Schema for the URL prefix an authority rule matches: a domain with an
+ * optional path, e.g. "github.com/my-org"
+ */
+const AuthorityRuleMatch = z
+  .string()
+  .regex(
+    /^(?:[a-z\d](?:[a-z\d-]*[a-z\d])?\.)+[a-z]{2,}(?:\/\S*)?$/iu,
+    "Must be a domain with an optional path, such as github.com/my-org (no scheme)",
+  );
+
+/**
+ * Schema for the config file (project-local and user-level files share it)
+ */
+const Config = z.strictObject({
+  /** Extra guidance appended to the Authoritative Sources section of every prompt */
+  authoritativeSources: z.string().min(1).optional(),
+  maxRetries: z.number().int().nonnegative().optional(),
+  /** Search backend; openai-compatible requires a baseUrl */
+  provider: z
+    .strictObject({
+      type: z.enum(["perplexity", "openai-compatible"]).optional(),
+      baseUrl: z.url({ protocol: /^https?$/u }).optional(),
+    })
+    .optional(),
+  /** Limits for batch_lookup and batch_answer */
+  batch: z
+    .strictObject({
+      concurrency: z.number().int().positive().optional(),
+      maxItems: z.number().int().positive().optional(),
+    })
+    .optional(),
+  /** Send installed versions of mentioned packages from the workspace lockfile with each question */
+  dependencyContext: z.boolean().optional(),
+  /** Citation post-processing applied to every answer */
+  citations: z
+    .strictObject({
+      dangling: z.enum(["remove", "flag"]).optional(),
+      dropUncited: z.boolean().optional(),
+    })
+    .optional(),
+  /** Disclosure of the reasoning that reasoning models put in <think> blocks */
+  reasoning: z
+    .strictObject({
+      /** Add a condensed copy of the reasoning as a separate, assistant-only content block */
+      disclose: z.boolean().optional(),
+      maxLength: z.number().int().min(100).optional(),
+    })
+    .optional(),
+  /** Price table for cost estimates and optional spending caps */
+  usage: z
+    .strictObject({
+      prices: z.record(z.string().min(1), ModelPrice).optional(),
+      dailyBudgetUsd: z.number().positive().optional(),
+      sessionBudgetUsd: z.number().positive().optional(),
+    })
+    .optional(),
+  /** Client-side rate limits shared by all tools, per model */
+  rateLimits: z
+    .strictObject({
+      /** Requests waiting per model before new ones fail fast */
+      maxQueueSize: z.number().int().positive().optional(),
+      /** Limits for models without their own entry */
+      default: ModelRateLimit.optional(),
+      models: z.record(z.string().min(1), ModelRateLimit).optional(),
+    })
+    .optional(),
+  /** Masking of sensitive data in questions before they are sent */
+  redaction: z
+    .strictObject({
+      mode: z.enum(["mask", "strict", "off"]).optional(),
+      /** Extra patterns to mask, keyed by the name reported in tool results */
+      patterns: z.record(z.string().min(1), RedactionPattern).optional(),
+    })
+    .optional(),
+  /** Rating of sources by authority, and the low-authority lookup retry */
+  sourceAuthority: z
+    .strictObject({
+      /** Tiers keyed by domain or URL prefix; checked before the built-in rules */
+      rules: z.record(AuthorityRuleMatch, AuthorityTier).optional(),
+      retryLowAuthority: z.boolean().optional(),
+    })
+    .optional(),
+  /** Retention of the research history (perplexity://history resources) */
+  history: z
+    .strictObject({
+      /** 0 disables history */
+      maxEntries: z.number().int().nonnegative().optional(),
+      maxAgeMs: z.number().int().positive().optional(),
+    })
+    .optional(),
+  /** On-disk response cache shared by all tools */
+  cache: z
+    .strictObject({
+      /** Entries kept before the least recently used are evicted */
+      maxEntries: z.number().int().nonnegative().optional(),
+    })
+    .optional(),
+  /** MCP log messages and the optional JSONL trace of API traffic */
+  logging: z
+    .strictObject({
+      level: z.enum(LoggingLevelSchema.options).optional(),
+      /** Relative paths resolve against the working directory */
+      traceFile: z.string().min(1).optional(),
+    })
+    .optional(),
+  /** Limits for multi-turn research sessions (session_id tool input) */
+  sessions: z
+    .strictObject({
+      maxTurns: z.number().int().positive().optional(),
+      ttlMs: z.number().int().positive().optional(),
+      maxSessions: z.number().int().positive().optional(),
+    })
+    .optional(),
+  /** Default search filters for every tool; per-tool filters override them */
+  searchFilters: SearchFilters.optional(),
+  tools: z
+    .strictObject({
+      lookup: ToolConfig.optional(),
+      answer: ToolConfig.optional(),
+      verify: ToolConfig.optional(),
+      /** Background deep_research jobs; cacheTtlMs does not apply */
+      deepResearch: ToolConfig.optional(),
+    })
+    .optional(),
+});
+export type Config = z.infer<typeof Config>;
+
+export type ToolName = keyof NonNullable<Config["tools"]>;
+
+/**
+ * Whether and how compactly tool results disclose the model's reasoning
+ */
+export interface ReasoningSettings {
+  disclose: boolean;
+  /** Upper bound for the condensed reasoning, in characters */
+  maxLength: number;
+}
+
+/**
+ * Limits for the batch tools
+ */
+export interface BatchLimits {
+  /** Questions researched at the same time */
+  concurrency: number;
+  /** Questions accepted per call */
+  maxItems: number;
+}
+
+/**
+ * Fully resolved settings for one tool
+ */
+export interface ToolSettings {
+  model: string;
+  searchContextSize: "low" | "medium" | "high";
+  system: string;
+  timeoutMs: number;
+  cacheTtlMs: number;
+  searchFilters: SearchFilters;
+  /** Rate limiter queue priority; quick lookups go ahead of long answers */
+  priority: RequestPriority;
+  /** Ask for related questions to return as follow-ups */
+  relatedQuestions: boolean;
+}
+
+const TOOL_DEFAULTS: Record<ToolName, Omit<ToolSettings, "system" | "searchFilters">> = {
+  lookup: {
+    model: "sonar-pro",
+    searchContextSize: "medium",
+    timeoutMs: 60_000,
+    cacheTtlMs: 86_400_000,
+    priority: "high",
+    relatedQuestions: false,
+  },
+  answer: {
+    model: "sonar-reasoning-pro",
+    searchContextSize: "high",
+    timeoutMs: 180_000,
+    cacheTtlMs: 3_600_000,
+    priority: "normal",
+    relatedQuestions: false,
+  },
+  verify: {
+    model: "sonar-pro",
+    searchContextSize: "high",
+    timeoutMs: 60_000,
+    cacheTtlMs: 86_400_000,
+    priority: "high",
+    relatedQuestions: false,
+  },
+  deepResearch: {
+    model: "sonar-deep-research",
+    searchContextSize: "high",
+    timeoutMs: 1_800_000,
+    cacheTtlMs: 0,
+    priority: "normal",
+    relatedQuestions: false,
+  },
+};
+
+/**
+ * Published Perplexity list prices, used unless the config overrides them.
+ * Request fees are those for a medium search context; for sonar-deep-research
+ * they are the per-search-query fee, and citation and reasoning tokens are not priced.
+ */
+const MODEL_PRICES: Record<string, z.infer<typeof ModelPrice>> = {
+  sonar: { inputPerMillionTokens: 1, outputPerMillionTokens: 1, perThousandRequests: 8 },
+  "sonar-pro": { inputPerMillionTokens: 3, outputPerMillionTokens: 15, perThousandRequests: 10 },
+  "sonar-reasoning": {
+    inputPerMillionTokens: 1,
+    outputPerMillionTokens: 5,
+    perThousandRequests: 8,
+  },
+  "sonar-reasoning-pro": {
+    inputPerMillionTokens: 2,
+    outputPerMillionTokens: 8,
+    perThousandRequests: 10,
+  },
+  "sonar-deep-research": {
+    inputPerMillionTokens: 2,
+    outputPerMillionTokens: 8,
+    perThousandRequests: 5,
+  },
+};
+
+const PROMPT_BUILDERS: Record<ToolName, (additionalSources?: string) => string> = {
+  lookup: buildLookupSystemPrompt,
+  answer: buildAnswerSystemPrompt,
+  verify: buildVerifySystemPrompt,
+  deepResearch: buildDeepResearchSystemPrompt,
+};
+
+/**
+ * Formats zod issues as "path: message" lines.
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
+
+/**
+ * Reads and validates one config file. A missing file yields an empty config.
+ */
+async function readConfigFile(filePath: string): Promise<Config> {
+  let raw;
+  try {
+    raw = await readFile(filePath, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return {};
+    }
+    throw new ConfigError(`Unable to read configuration file ${filePath}`, { cause: error });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Invalid JSON in configuration file ${filePath}: ${message}`, {
+      cause: error,
+    });
+  }
+
+  const parsed = Config.safeParse(json);
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid configuration in ${filePath}:\n${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Rejects settings that only the user may choose. The project-local file comes
+ * with whatever repository the server runs in, so it must not be able to send
+ * the API key and queries to another host, or write prompts to any path.
+ */
+function assertNoUserOnlySettings(config: Config, filePath: string): void {
+  if (config.provider?.baseUrl !== undefined) {
+    throw new ConfigError(
+      `Invalid configuration in ${filePath}: provider.baseUrl can only be set in the user-level config file or PERPLEXITY_BASE_URL`,
+    );
+  }
+  if (config.logging?.traceFile !== undefined) {
+    throw new ConfigError(
+      `Invalid configuration in ${filePath}: logging.traceFile can only be set in the user-level config file or PERPLEXITY_TRACE_FILE`,
+    );
+  }
+}
+
+/**
+ * Merges two configs; fields in override win, tool settings merge per field.
+ */
+function mergeConfigs(base: Config, override: Config): Config {
+  return {
+    ...base,
+    ...override,
+    batch: { ...base.batch, ...override.batch },
+    citations: { ...base.citations, ...override.citations },
+    reasoning: { ...base.reasoning, ...override.reasoning },
+    usage: {
+      ...base.usage,
+      ...override.usage,
+      prices: { ...base.usage?.prices, ...override.usage?.prices },
+    },
+    rateLimits: {
+      ...base.rateLimits,
+      ...override.rateLimits,
+      default: { ...base.rateLimits?.default, ...override.rateLimits?.default },
+      models: { ...base.rateLimits?.models, ...override.rateLimits?.models },
+    },
+    redaction: {
+      ...base.redaction,
+      ...override.redaction,
+      patterns: { ...base.redaction?.patterns, ...override.redaction?.patterns },
+    },
+    sourceAuthority: {
+      ...base.sourceAuthority,
+      ...override.sourceAuthority,
+      rules: { ...base.sourceAuthority?.rules, ...override.sourceAuthority?.rules },
+    },
+    history: { ...base.history, ...override.history },
+    cache: { ...base.cache, ...override.cache },
+    logging: { ...base.logging, ...override.logging },
+    provider: { ...base.provider, ...override.provider },
+    sessions: { ...base.sessions, ...override.sessions },
+    tools: {
+      lookup: { ...base.tools?.lookup, ...override.tools?.lookup },
+      answer: { ...base.tools?.answer, ...override.tools?.answer },
+      verify: { ...base.tools?.verify, ...override.tools?.verify },
+      deepResearch: { ...base.tools?.deepResearch, ...override.tools?.deepResearch },
+    },
+  };
+}
+
+const envString = (value: string | undefined) =>
+  value === undefined || value.trim() === "" ? undefined : value;
+
+const envNumber = (value: string | undefined) =>
+  envString(value) === undefined ? undefined : Number(value);
+
+const withoutUndefined = (object: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined));
+
+/**
+ * Collects overrides from environment variables, e.g. PERPLEXITY_LOOKUP_MODEL
+ * or PERPLEXITY_ANSWER_TIMEOUT_MS. Numeric values are converted here and
+ * validated together with the config files.
+ */
+function readEnvOverrides(env: NodeJS.ProcessEnv): unknown {
+  const tool = (prefix: string) => ({
+    model: envString(env[`${prefix}_MODEL`]),
+    searchContextSize: envString(env[`${prefix}_SEARCH_CONTEXT_SIZE`]),
+    timeoutMs: envNumber(env[`${prefix}_TIMEOUT_MS`]),
+    cacheTtlMs: envNumber(env[`${prefix}_CACHE_TTL_MS`]),
+  });
+
+  return {
+    ...withoutUndefined({ maxRetries: envNumber(env.PERPLEXITY_MAX_RETRIES) }),
+    provider: withoutUndefined({
+      type: envString(env.PERPLEXITY_PROVIDER),
+      baseUrl: envString(env.PERPLEXITY_BASE_URL),
+    }),
+    batch: withoutUndefined({ concurrency: envNumber(env.PERPLEXITY_BATCH_CONCURRENCY) }),
+    redaction: withoutUndefined({ mode: envString(env.PERPLEXITY_REDACTION_MODE) }),
+    cache: withoutUndefined({ maxEntries: envNumber(env.PERPLEXITY_CACHE_MAX_ENTRIES) }),
+    logging: withoutUndefined({
+      level: envString(env.PERPLEXITY_LOG_LEVEL),
+      traceFile: envString(env.PERPLEXITY_TRACE_FILE),
+    }),
+    tools: {
+      lookup: withoutUndefined(tool("PERPLEXITY_LOOKUP")),
+      answer: withoutUndefined(tool("PERPLEXITY_ANSWER")),
+      verify: withoutUndefined(tool("PERPLEXITY_VERIFY")),
+      deepResearch: withoutUndefined(tool("PERPLEXITY_DEEP_RESEARCH")),
+    },
+  };
+}
+
+/**
+ * Loads the server configuration. Sources, from lowest to highest precedence:
+ * 1. User-level file: $XDG_CONFIG_HOME/perplexity-agent-mcp/config.json
+ *    (defaults to ~/.config/perplexity-agent-mcp/config.json)
+ * 2. Project-local file: .perplexity-agent-mcp.json in the working directory,
+ *    or the file named by PERPLEXITY_CONFIG; it may not set provider.baseUrl
+ *    or logging.traceFile
+ * 3. Environment variables (PERPLEXITY_<TOOL>_MODEL, _SEARCH_CONTEXT_SIZE,
+ *    _TIMEOUT_MS, _CACHE_TTL_MS, PERPLEXITY_MAX_RETRIES,
+ *    PERPLEXITY_BATCH_CONCURRENCY, PERPLEXITY_PROVIDER, PERPLEXITY_BASE_URL,
+ *    PERPLEXITY_REDACTION_MODE, PERPLEXITY_CACHE_MAX_ENTRIES,
+ *    PERPLEXITY_LOG_LEVEL and PERPLEXITY_TRACE_FILE)
+ *
+ * @param {string} cwd - Directory searched for the project-local file
+ * @param {NodeJS.ProcessEnv} env - Environment to read overrides from
+ * @returns {Promise<Config>} The merged, validated configuration
+ * @throws {ConfigError} If a file cannot be read or any value is invalid
+ */
+export async function loadConfig(cwd = process.cwd(), env = process.env): Promise<Config> {
+  const configHome = env.XDG_CONFIG_HOME ?? path.join(homedir(), ".config");
+  const userConfig = await readConfigFile(
+    path.join(configHome, "perplexity-agent-mcp", "config.json"),
+  );
+  const projectPath = env.PERPLEXITY_CONFIG
+    ? path.resolve(cwd, env.PERPLEXITY_CONFIG)
+    : path.join(cwd, PROJECT_CONFIG_FILE);
+  const projectConfig = await readConfigFile(projectPath);
+  assertNoUserOnlySettings(projectConfig, projectPath);
+
+  const parsedEnv = Config.safeParse(readEnvOverrides(env));
+  if (!parsedEnv.success) {
+    throw new ConfigError(
+      `Invalid configuration in environment variables:\n${formatIssues(parsedEnv.error)}`,
+    );
+  }
+
+  const config = mergeConfigs(mergeConfigs(userConfig, projectConfig), parsedEnv.data);
+
+  if (config.provider?.type === "openai-compatible" && !config.provider.baseUrl) {
+    throw new ConfigError(
+      "Invalid configuration: provider.baseUrl is required for the openai-compatible provider",
+    );
+  }
+
+  // Global and per-tool filters are valid on their own but may conflict once merged
+  for (const tool of Object.keys(TOOL_DEFAULTS) as ToolName[]) {
+    const filters = resolveToolSettings(config, tool).searchFilters;
+    const parsedFilters = SearchFilters.safeParse(filters);
+    if (!parsedFilters.success) {
+      throw new ConfigError(
+        `Invalid configuration for tools.${tool}.searchFilters:\n${formatIssues(parsedFilters.error)}`,
+      );
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Resolves batch tool limits, filling in built-in defaults.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {BatchLimits} Concurrency and size limits for batch tools
+ */
+export function resolveBatchLimits(config: Config): BatchLimits {
+  return {
+    concurrency: config.batch?.concurrency ?? 3,
+    maxItems: config.batch?.maxItems ?? 10,
+  };
+}
+
+/**
+ * Resolves citation post-processing options, filling in built-in defaults.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {CitationOptions} Options for processCitations()
+ */
+export function resolveCitationOptions(config: Config): CitationOptions {
+  return {
+    dangling: config.citations?.dangling ?? "flag",
+    dropUncited: config.citations?.dropUncited ?? true,
+  };
+}
+
+/**
+ * Resolves reasoning disclosure, filling in built-in defaults (off, 1200 characters).
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {ReasoningSettings} Settings for the reasoning content block
+ */
+export function resolveReasoningSettings(config: Config): ReasoningSettings {
+  return {
+    disclose: config.reasoning?.disclose ?? false,
+    maxLength: config.reasoning?.maxLength ?? 1200,
+  };
+}
+
+/**
+ * Resolves outbound redaction settings. Masking is on unless the mode is
+ * configured otherwise; custom patterns are compiled here.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {RedactionSettings} Settings for redactMessages()
+ */
+export function resolveRedactionSettings(config: Config): RedactionSettings {
+  return {
+    mode: config.redaction?.mode ?? "mask",
+    customPatterns: Object.entries(config.redaction?.patterns ?? {}).map(([name, source]) => ({
+      name,
+      pattern: new RegExp(source, "gu"),
+    })),
+  };
+}
+
+/**
+ * Resolves source authority settings. Configured rules are ordered with the
+ * most specific (longest) match first, so "github.com/my-org" wins over
+ * "github.com"; the low-authority retry is off by default.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {SourceAuthoritySettings} Rules for classifySource() and the retry switch
+ */
+export function resolveSourceAuthoritySettings(config: Config): SourceAuthoritySettings {
+  const rules = Object.entries(config.sourceAuthority?.rules ?? {})
+    .map(([match, tier]) => ({ match, tier }))
+    .toSorted((a, b) => b.match.length - a.match.length);
+  return { rules, retryLowAuthority: config.sourceAuthority?.retryLowAuthority ?? false };
+}
+
+/**
+ * Resolves the price table and budgets for usage accounting. Configured
+ * prices are added to, or replace, the built-in list prices per model.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {UsageSettings} Settings for the usage tracker
+ */
+export function resolveUsageSettings(config: Config): UsageSettings {
+  return {
+    prices: { ...MODEL_PRICES, ...config.usage?.prices },
+    dailyBudgetUsd: config.usage?.dailyBudgetUsd,
+    sessionBudgetUsd: config.usage?.sessionBudgetUsd,
+  };
+}
+
+/**
+ * Resolves history retention limits, filling in built-in defaults.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {HistoryLimits} The limits for the history store
+ */
+export function resolveHistoryLimits(config: Config): HistoryLimits {
+  return {
+    maxEntries: config.history?.maxEntries ?? 500,
+    maxAgeMs: config.history?.maxAgeMs ?? 2_592_000_000,
+  };
+}
+
+/**
+ * Resolves the response cache size cap, defaulting to 500 entries.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {CacheLimits} The limits for the response cache
+ */
+export function resolveCacheLimits(config: Config): CacheLimits {
+  return { maxEntries: config.cache?.maxEntries ?? 500 };
+}
+
+/**
+ * Resolves the search provider settings, defaulting to the Perplexity API.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {ProviderSettings} Settings for createProvider()
+ */
+export function resolveProviderSettings(config: Config): ProviderSettings {
+  return {
+    type: config.provider?.type ?? "perplexity",
+    baseUrl: config.provider?.baseUrl,
+  };
+}
+
+/**
+ * Resolves client-side rate limits, filling in built-in defaults (50 requests
+ * per minute and 5 in flight per model, 50 queued requests). A model entry
+ * may set only one field; the other comes from the default entry.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {RateLimitSettings} The settings for createRateLimiter()
+ */
+export function resolveRateLimitSettings(config: Config): RateLimitSettings {
+  const defaults = {
+    requestsPerMinute: config.rateLimits?.default?.requestsPerMinute ?? 50,
+    maxConcurrency: config.rateLimits?.default?.maxConcurrency ?? 5,
+  };
+  const models = Object.fromEntries(
+    Object.entries(config.rateLimits?.models ?? {}).map(([model, limit]) => [
+      model,
+      { ...defaults, ...limit },
+    ]),
+  );
+  return { models, defaults, maxQueueSize: config.rateLimits?.maxQueueSize ?? 50 };
+}
+
+/**
+ * Resolves logging settings, filling in built-in defaults. A relative trace
+ * file path is resolved against the working directory.
+ *
+ * @param {Config} config - The loaded configuration
+ * @param {string} cwd - Directory relative trace file paths are resolved against
+ * @returns {LoggingSettings} The settings for registerLogging()
+ */
+export function resolveLoggingSettings(config: Config, cwd = process.cwd()): LoggingSettings {
+  const traceFile = config.logging?.traceFile;
+  return {
+    level: config.logging?.level ?? "info",
+    traceFile: traceFile === undefined ? undefined : path.resolve(cwd, traceFile),
+  };
+}
+
+/**
+ * Resolves session limits, filling in built-in defaults.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {SessionLimits} The limits for the session store
+ */
+export function resolveSessionLimits(config: Config): SessionLimits {
+  return {
+    maxTurns: config.sessions?.maxTurns ?? 10,
+    ttlMs: config.sessions?.ttlMs ?? 3_600_000,
+    maxSessions: config.sessions?.maxSessions ?? 100,
+  };
+}
+
+/**
+ * Resolves the effective settings for a tool, filling in built-in defaults.
+ * A configured systemPrompt replaces the built-in prompt; otherwise the
+ * built-in prompt is used with any configured authoritativeSources appended.
+ *
+ * @param {Config} config - The loaded configuration
+ * @param {ToolName} tool - The tool to resolve settings for
+ * @returns {ToolSettings} The settings to use for API calls
+ */
+export function resolveToolSettings(config: Config, tool: ToolName): ToolSettings {
+  const overrides = config.tools?.[tool] ?? {};
+  const defaults = TOOL_DEFAULTS[tool];
+  return {
+    model: overrides.model ?? defaults.model,
+    searchContextSize: overrides.searchContextSize ?? defaults.searchContextSize,
+    system: overrides.systemPrompt ?? PROMPT_BUILDERS[tool](config.authoritativeSources),
+    timeoutMs: overrides.timeoutMs ?? defaults.timeoutMs,
+    cacheTtlMs: overrides.cacheTtlMs ?? defaults.cacheTtlMs,
+    priority: defaults.priority,
+    relatedQuestions: overrides.relatedQuestions ?? defaults.relatedQuestions,
+    searchFilters: mergeSearchFilters(config.searchFilters ?? {}, overrides.searchFilters ?? {}),
+  };
+}
@@ -0,0 +1,133 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { formatDoctorReport, runDoctor } from "./doctor.ts";
+import type { FetchFunction } from "./record-replay.ts";
+
+let directory: string;
+let env: NodeJS.ProcessEnv;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "perplexity-doctor-"));
+  env = { XDG_CONFIG_HOME: directory, PERPLEXITY_API_KEY: "pplx-test-key-123456" };
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const respond = (status: number, body = "") => new Response(body, { status });
+
+describe("runDoctor", () => {
+  it("should pass every check and probe each configured model once", async () => {
+    const fetchMock = vi.fn<FetchFunction>(async (_url, init) =>
+      init.method === "GET" ? respond(405) : respond(200, "data: {}\n\n"),
+    );
+
+    const checks = await runDoctor({ checkModels: true, cwd: directory, env, fetch: fetchMock });
+
+    expect(checks.map(({ name, status }) => [name, status])).toEqual([
+      ["Configuration", "ok"],
+      ["API key", "ok"],
+      ["Endpoint", "ok"],
+      ["Model sonar-pro", "ok"],
+      ["Model sonar-reasoning-pro", "ok"],
+      ["Model sonar-deep-research", "ok"],
+    ]);
+    expect(checks[2]?.detail).toMatch(
+      /^https:\/\/api\.perplexity\.ai\/chat\/completions reachable \(HTTP 405, \d+ ms\)$/u,
+    );
+    const modelRequest = JSON.parse(String(fetchMock.mock.calls[1]?.[1].body));
+    expect(modelRequest).toMatchObject({ model: "sonar-pro", max_tokens: 1 });
+  });
+
+  it("should report unavailable models and rejected keys", async () => {
+    const fetchMock = vi.fn<FetchFunction>(async (_url, init) => {
+      if (init.method === "GET") {
+        return respond(404);
+      }
+      const { model } = JSON.parse(String(init.body)) as { model: string };
+      return model === "sonar-pro"
+        ? respond(401, "Unauthorized")
+        : respond(400, `{"error":{"message":"Invalid model '${model}'"}}\n`);
+    });
+
+    const checks = await runDoctor({ checkModels: true, cwd: directory, env, fetch: fetchMock });
+
+    expect(checks.find((check) => check.name === "Model sonar-pro")).toEqual({
+      name: "Model sonar-pro",
+      status: "fail",
+      detail: "API key rejected (HTTP 401)",
+    });
+    expect(checks.find((check) => check.name === "Model sonar-deep-research")).toEqual({
+      name: "Model sonar-deep-research",
+      status: "fail",
+      detail: `HTTP 400: {"error":{"message":"Invalid model 'sonar-deep-research'"}}`,
+    });
+  });
+
+  it("should fail on a missing key and an unreachable endpoint, and skip the models", async () => {
+    const fetchMock = vi.fn<FetchFunction>(async () => {
+      throw new TypeError("fetch failed");
+    });
+    delete env.PERPLEXITY_API_KEY;
+
+    const checks = await runDoctor({
+      endpoint: "https://gateway.internal.example/",
+      checkModels: true,
+      cwd: directory,
+      env,
+      fetch: fetchMock,
+    });
+
+    expect(checks).toEqual([
+      { name: "Configuration", status: "ok", detail: "Valid (provider: perplexity)" },
+      { name: "API key", status: "fail", detail: "PERPLEXITY_API_KEY is not set" },
+      {
+        name: "Endpoint",
+        status: "fail",
+        detail: "https://gateway.internal.example/ unreachable: fetch failed",
+      },
+      {
+        name: "Models",
+        status: "skip",
+        detail: "Skipped: needs a valid configuration, an API key and a reachable endpoint",
+      },
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report an invalid configuration and warn about an unusual key", async () => {
+    const configPath = path.join(directory, "config.json");
+    await writeFile(configPath, JSON.stringify({ tools: { lookup: { model: "" } } }));
+    env.PERPLEXITY_CONFIG = configPath;
+    env.PERPLEXITY_API_KEY = "sk-not-perplexity";
+
+    const checks = await runDoctor({
+      cwd: directory,
+      env,
+      fetch: vi.fn<FetchFunction>(async () => respond(200)),
+    });
+
+    expect(checks[0]).toMatchObject({ name: "Configuration", status: "fail" });
+    expect(checks[0]?.detail).toContain("tools.lookup.model");
+    expect(checks[1]).toEqual({
+      name: "API key",
+      status: "warn",
+      detail: 'PERPLEXITY_API_KEY is set but does not start with "pplx-"',
+    });
+    expect(checks).toHaveLength(3);
+  });
+});
+
+describe("formatDoctorReport", () => {
+  it("should print one aligned line per check", () => {
+    expect(
+      formatDoctorReport([
+        { name: "API key", status: "ok", detail: "PERPLEXITY_API_KEY is set" },
+        { name: "Models", status: "skip", detail: "Skipped" },
+      ]),
+    ).toBe("[ok]   API key: PERPLEXITY_API_KEY is set\n[skip] Models: Skipped");
+  });
+});
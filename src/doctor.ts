@@ -0,0 +1,221 @@
+import {
+  type Config,
+  type ToolName,
+  loadConfig,
+  resolveProviderSettings,
+  resolveToolSettings,
+} from "./config.js";
+import { createProvider, type SearchProvider } from "./providers/provider.js";
+import type { FetchFunction } from "./record-replay.js";
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/** Tools whose configured models are checked */
+const CHECKED_TOOLS: ToolName[] = ["lookup", "answer", "verify", "deepResearch"];
+
+/**
+ * Outcome of one check; "skip" means an earlier failure made it pointless
+ */
+export type CheckStatus = "ok" | "warn" | "fail" | "skip";
+
+/**
+ * One line of the doctor report
+ */
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+/**
+ * Options for runDoctor()
+ */
+export interface DoctorOptions {
+  /** URL probed for connectivity; defaults to the provider's chat completions endpoint */
+  endpoint?: string;
+  /** Send a minimal request per configured model (billed like any request; off by default) */
+  checkModels?: boolean;
+  timeoutMs?: number;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  fetch?: FetchFunction;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Returns the first line of an error body, shortened for the report.
+ */
+function summarize(text: string): string {
+  const line = text.trim().split("\n")[0] ?? "";
+  return line.length > 200 ? `${line.slice(0, 200)}…` : line;
+}
+
+/**
+ * Checks the API key is set and, for Perplexity, has the expected prefix.
+ */
+function checkApiKey(config: Config | undefined, env: NodeJS.ProcessEnv): DoctorCheck {
+  const name = "API key";
+  const apiKey = env.PERPLEXITY_API_KEY;
+  if (!apiKey) {
+    return env.PERPLEXITY_FIXTURES_MODE?.trim() === "replay"
+      ? { name, status: "ok", detail: "Not needed in replay mode" }
+      : { name, status: "fail", detail: "PERPLEXITY_API_KEY is not set" };
+  }
+  if (config?.provider?.type !== "openai-compatible" && !apiKey.startsWith("pplx-")) {
+    return {
+      name,
+      status: "warn",
+      detail: 'PERPLEXITY_API_KEY is set but does not start with "pplx-"',
+    };
+  }
+  return { name, status: "ok", detail: "PERPLEXITY_API_KEY is set" };
+}
+
+/**
+ * Probes the endpoint with a GET request; any HTTP response counts as reachable.
+ */
+async function checkEndpoint(
+  endpoint: string,
+  fetchFunction: FetchFunction,
+  timeoutMs: number,
+): Promise<DoctorCheck> {
+  const name = "Endpoint";
+  const startedAt = performance.now();
+  try {
+    const response = await fetchFunction(endpoint, {
+      method: "GET",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await response.body?.cancel();
+    const latencyMs = Math.round(performance.now() - startedAt);
+    return {
+      name,
+      status: "ok",
+      detail: `${endpoint} reachable (HTTP ${response.status}, ${latencyMs} ms)`,
+    };
+  } catch (error) {
+    return { name, status: "fail", detail: `${endpoint} unreachable: ${errorMessage(error)}` };
+  }
+}
+
+/**
+ * Sends a one-token completion for the model and reads only the status.
+ */
+async function checkModel(
+  model: string,
+  provider: SearchProvider,
+  apiKey: string,
+  fetchFunction: FetchFunction,
+  timeoutMs: number,
+): Promise<DoctorCheck> {
+  const name = `Model ${model}`;
+  const controller = new AbortController();
+  const body = {
+    ...provider.buildRequest([{ role: "user", content: "Reply with OK." }], {
+      model,
+      system: "Reply with OK.",
+      searchContextSize: "low",
+    }),
+    max_tokens: 1,
+  };
+  try {
+    const response = await fetchFunction(provider.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.any([controller.signal, AbortSignal.timeout(timeoutMs)]),
+    });
+    if (response.ok) {
+      // The status is all we need; stop the answer from streaming
+      controller.abort();
+      return { name, status: "ok", detail: "Available" };
+    }
+    const text = await response.text().catch(() => "");
+    if (response.status === 401 || response.status === 403) {
+      return { name, status: "fail", detail: `API key rejected (HTTP ${response.status})` };
+    }
+    const reason = summarize(text);
+    return {
+      name,
+      status: "fail",
+      detail: `HTTP ${response.status}${reason ? `: ${reason}` : ""}`,
+    };
+  } catch (error) {
+    return { name, status: "fail", detail: errorMessage(error) };
+  }
+}
+
+/**
+ * Checks the setup: the configuration loads, the API key is present and the
+ * endpoint is reachable. With checkModels, it also checks that each configured
+ * model answers; those requests are billed, so they only run when asked for,
+ * and are skipped when an earlier check failed or no API key is set (replay mode).
+ *
+ * @param {DoctorOptions} options - Endpoint override, model check switch and environment
+ * @returns {Promise<DoctorCheck[]>} One entry per check, in the order they ran
+ */
+export async function runDoctor({
+  endpoint,
+  checkModels = false,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  cwd = process.cwd(),
+  env = process.env,
+  fetch: fetchFunction = fetch,
+}: DoctorOptions = {}): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+
+  let config: Config | undefined;
+  try {
+    config = await loadConfig(cwd, env);
+    const { type, baseUrl } = resolveProviderSettings(config);
+    checks.push({
+      name: "Configuration",
+      status: "ok",
+      detail: `Valid (provider: ${type}${baseUrl ? `, base URL: ${baseUrl}` : ""})`,
+    });
+  } catch (error) {
+    checks.push({ name: "Configuration", status: "fail", detail: errorMessage(error) });
+  }
+
+  const apiKey = checkApiKey(config, env);
+  checks.push(apiKey);
+
+  const provider = createProvider(resolveProviderSettings(config ?? {}));
+  const reachable = await checkEndpoint(endpoint ?? provider.url, fetchFunction, timeoutMs);
+  checks.push(reachable);
+
+  if (!checkModels) {
+    return checks;
+  }
+  const key = env.PERPLEXITY_API_KEY;
+  if (!config || !key || reachable.status === "fail") {
+    checks.push({
+      name: "Models",
+      status: "skip",
+      detail: "Skipped: needs a valid configuration, an API key and a reachable endpoint",
+    });
+    return checks;
+  }
+  const models = new Set(CHECKED_TOOLS.map((tool) => resolveToolSettings(config, tool).model));
+  for (const model of models) {
+    checks.push(await checkModel(model, provider, key, fetchFunction, timeoutMs));
+  }
+  return checks;
+}
+
+/**
+ * Renders the checks as one line each, e.g. "[ok]   API key: PERPLEXITY_API_KEY is set".
+ *
+ * @param {DoctorCheck[]} checks - The results of runDoctor()
+ * @returns {string} The report
+ */
+export function formatDoctorReport(checks: DoctorCheck[]): string {
+  return checks
+    .map(({ name, status, detail }) => `${`[${status}]`.padEnd(7)}${name}: ${detail}`)
+    .join("\n");
+}
@@ -0,0 +1,124 @@
+/**
+ * Base class for errors raised while calling the Perplexity API.
+ * Tools turn these into isError results; anything else is treated as a bug.
+ */
+export class PerplexityError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "PerplexityError";
+  }
+}
+
+/**
+ * The API rejected the request with 429 Too Many Requests
+ */
+export class RateLimitError extends PerplexityError {
+  readonly retryAfterMs: number | undefined;
+
+  constructor(message: string, retryAfterMs: number | undefined, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The API key is missing or was rejected (401/403)
+ */
+export class AuthenticationError extends PerplexityError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * The API failed with a network error or an unexpected HTTP status.
+ * status is undefined when no response was received.
+ */
+export class UpstreamError extends PerplexityError {
+  readonly status: number | undefined;
+  readonly retryAfterMs: number | undefined;
+
+  constructor(
+    message: string,
+    status: number | undefined,
+    retryAfterMs?: number,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "UpstreamError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The request did not complete within its configured timeout
+ */
+export class TimeoutError extends PerplexityError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * The API response could not be read or parsed
+ */
+export class ParseError extends PerplexityError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ParseError";
+  }
+}
+
+/**
+ * The request was rejected before calling the API, e.g. invalid search filters
+ */
+export class InvalidRequestError extends PerplexityError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "InvalidRequestError";
+  }
+}
+
+/**
+ * A configured daily or session spending cap has been reached
+ */
+export class BudgetExceededError extends PerplexityError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Too many requests are already waiting in the client-side rate limiter queue
+ */
+export class QueueFullError extends PerplexityError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "QueueFullError";
+  }
+}
+
+/**
+ * Replay mode has no recorded fixture for a request, or recording one failed
+ */
+export class FixtureError extends PerplexityError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "FixtureError";
+  }
+}
+
+/**
+ * The configuration file or environment overrides are invalid
+ */
+export class ConfigError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ConfigError";
+  }
+}
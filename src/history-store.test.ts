@@ -0,0 +1,86 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createHistoryStore } from "./history-store.ts";
+
+const entry = (query: string, answer = `Answer to ${query}`) => ({
+  tool: "lookup",
+  model: "sonar-pro",
+  query,
+  answer,
+  sources: [{ index: 1, title: "Docs", url: "https://example.com" }],
+});
+
+const limits = { maxEntries: 3, maxAgeMs: 60_000 };
+
+let directory: string;
+let time: number;
+const now = () => time;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "perplexity-history-"));
+  time = Date.parse("2025-01-01T12:00:00Z");
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("createHistoryStore", () => {
+  it("should save entries and list them newest first", async () => {
+    const store = createHistoryStore(directory, limits, now);
+    const first = await store.add(entry("first"));
+    time += 1;
+    await store.add(entry("second"));
+
+    expect(first?.id).toMatch(/^20250101T120000000Z-[\da-f]{8}$/u);
+    expect((await store.list()).map((summary) => summary.query)).toEqual(["second", "first"]);
+    expect(await store.get(first!.id)).toEqual({
+      ...entry("first"),
+      id: first!.id,
+      createdAt: "2025-01-01T12:00:00.000Z",
+    });
+  });
+
+  it("should find entries containing every keyword in the query or answer", async () => {
+    const store = createHistoryStore(directory, limits, now);
+    await store.add(entry("Migrate zod to v4", "Use the codemod."));
+    await store.add(entry("Vite config", "Zod is unrelated here."));
+
+    const matches = await store.search("ZOD codemod");
+    expect(matches.map((summary) => summary.query)).toEqual(["Migrate zod to v4"]);
+  });
+
+  it("should delete the oldest entries beyond maxEntries", async () => {
+    const store = createHistoryStore(directory, limits, now);
+    for (const query of ["a", "b", "c", "d"]) {
+      time += 1;
+      await store.add(entry(query));
+    }
+
+    expect((await store.list()).map((summary) => summary.query)).toEqual(["d", "c", "b"]);
+    expect(await readdir(directory)).toHaveLength(3);
+  });
+
+  it("should hide and delete entries older than maxAgeMs", async () => {
+    const store = createHistoryStore(directory, limits, now);
+    const old = await store.add(entry("old"));
+    time += 60_001;
+
+    expect(await store.get(old!.id)).toBeUndefined();
+    await store.add(entry("new"));
+    expect((await readdir(directory)).length).toBe(1);
+  });
+
+  it("should save nothing when maxEntries is 0", async () => {
+    const store = createHistoryStore(directory, { ...limits, maxEntries: 0 }, now);
+    expect(await store.add(entry("q"))).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("should reject IDs that are not history IDs", async () => {
+    const store = createHistoryStore(directory, limits, now);
+    expect(await store.get("../config")).toBeUndefined();
+  });
+});
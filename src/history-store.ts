@@ -0,0 +1,187 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { Source } from "./schemas.js";
+
+/**
+ * Schema for a saved tool result
+ */
+const HistoryEntry = z.object({
+  id: z.string(),
+  tool: z.string(),
+  model: z.string(),
+  query: z.string(),
+  createdAt: z.string(),
+  answer: z.string(),
+  sources: z.array(Source),
+});
+export type HistoryEntry = z.infer<typeof HistoryEntry>;
+
+/**
+ * A history entry without its answer and sources, for listing
+ */
+export type HistorySummary = Omit<HistoryEntry, "answer" | "sources">;
+
+/**
+ * Retention limits for the history store
+ */
+export interface HistoryLimits {
+  /** Entries kept; the oldest are deleted first. 0 disables history */
+  maxEntries: number;
+  /** Age after which entries are deleted */
+  maxAgeMs: number;
+}
+
+/**
+ * Local store of research results, newest first
+ */
+export interface HistoryStore {
+  /** Saves a result; returns undefined when history is disabled or saving fails */
+  add(entry: Omit<HistoryEntry, "id" | "createdAt">): Promise<HistoryEntry | undefined>;
+  get(id: string): Promise<HistoryEntry | undefined>;
+  list(): Promise<HistorySummary[]>;
+  /** Entries whose query or answer contains every keyword, case-insensitively */
+  search(keywords: string): Promise<HistorySummary[]>;
+}
+
+const ID_PATTERN = /^\d{8}T\d{9}Z-[\da-f]{8}$/u;
+
+const toSummary = (entry: HistoryEntry): HistorySummary => ({
+  id: entry.id,
+  tool: entry.tool,
+  model: entry.model,
+  query: entry.query,
+  createdAt: entry.createdAt,
+});
+
+/**
+ * Formats a time as the sortable prefix of an ID, e.g. "20250101T120000123Z".
+ */
+const formatTimestamp = (time: number) => new Date(time).toISOString().replaceAll(/[-:.]/gu, "");
+
+/**
+ * Creates a history store that keeps one JSON file per entry in a directory.
+ * Entries beyond the retention limits are deleted whenever one is added.
+ *
+ * @param {string} directory - Directory for history files (created on first write)
+ * @param {HistoryLimits} limits - Retention limits
+ * @param {() => number} now - Clock, injectable for tests
+ * @returns {HistoryStore} The store
+ */
+export function createHistoryStore(
+  directory: string,
+  limits: HistoryLimits,
+  now: () => number = Date.now,
+): HistoryStore {
+  const entryPath = (id: string) => path.join(directory, `${id}.json`);
+
+  const read = async (id: string) => {
+    if (!ID_PATTERN.test(id)) {
+      return undefined;
+    }
+    try {
+      return HistoryEntry.parse(JSON.parse(await readFile(entryPath(id), "utf8")));
+    } catch {
+      return undefined;
+    }
+  };
+
+  // IDs sort chronologically, so newest first is reverse file name order
+  const listIds = async () => {
+    let files;
+    try {
+      files = await readdir(directory);
+    } catch {
+      return [];
+    }
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .filter((id) => ID_PATTERN.test(id))
+      .toSorted()
+      .toReversed();
+  };
+
+  const readAll = async () => {
+    const entries = await Promise.all((await listIds()).map(read));
+    const cutoff = now() - limits.maxAgeMs;
+    return entries.filter(
+      (entry): entry is HistoryEntry =>
+        entry !== undefined && Date.parse(entry.createdAt) >= cutoff,
+    );
+  };
+
+  const prune = async () => {
+    const cutoff = formatTimestamp(now() - limits.maxAgeMs);
+    const ids = await listIds();
+    await Promise.all(
+      ids
+        .filter((id, index) => index >= limits.maxEntries || id < cutoff)
+        .map((id) => rm(entryPath(id), { force: true })),
+    );
+  };
+
+  return {
+    async add(entry) {
+      if (limits.maxEntries === 0) {
+        return undefined;
+      }
+      const time = now();
+      const saved = {
+        id: `${formatTimestamp(time)}-${randomBytes(4).toString("hex")}`,
+        createdAt: new Date(time).toISOString(),
+        ...entry,
+      };
+      try {
+        await mkdir(directory, { recursive: true });
+        // Write to a temporary file first so readers never see a partial entry
+        const temporaryPath = `${entryPath(saved.id)}.${process.pid}.tmp`;
+        await writeFile(temporaryPath, JSON.stringify(saved));
+        await rename(temporaryPath, entryPath(saved.id));
+        await prune();
+      } catch {
+        // History is best-effort
+        return undefined;
+      }
+      return saved;
+    },
+
+    async get(id) {
+      const entry = await read(id);
+      return entry && Date.parse(entry.createdAt) >= now() - limits.maxAgeMs ? entry : undefined;
+    },
+
+    async list() {
+      return (await readAll()).map(toSummary);
+    },
+
+    async search(keywords) {
+      const terms = keywords.toLowerCase().split(/\s+/u).filter(Boolean);
+      const entries = await readAll();
+      return entries
+        .filter((entry) => {
+          const text = `${entry.query}\n${entry.answer}`.toLowerCase();
+          return terms.every((term) => text.includes(term));
+        })
+        .map(toSummary);
+    },
+  };
+}
+
+/**
+ * Resolves the default history directory: PERPLEXITY_HISTORY_DIR, then
+ * $XDG_STATE_HOME/perplexity-agent-mcp/history, then
+ * ~/.local/state/perplexity-agent-mcp/history.
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment to read the directory from
+ * @returns {string} The history directory
+ */
+export function defaultHistoryDirectory(env = process.env): string {
+  if (env.PERPLEXITY_HISTORY_DIR) {
+    return env.PERPLEXITY_HISTORY_DIR;
+  }
+  const stateHome = env.XDG_STATE_HOME ?? path.join(homedir(), ".local", "state");
+  return path.join(stateHome, "perplexity-agent-mcp", "history");
+}
@@ -0,0 +1,132 @@
+import type { Server } from "node:http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { parseAuthTokens, runHttpServer } from "./http-server.ts";
+
+const initializeRequest = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  },
+};
+
+let server: Server;
+let endpoint: string;
+
+beforeAll(async () => {
+  server = await runHttpServer({
+    host: "127.0.0.1",
+    port: 0,
+    authTokens: ["team-token"],
+    config: {},
+  });
+  const address = server.address();
+  if (typeof address !== "object" || !address) {
+    throw new Error("Server is not listening on a TCP port");
+  }
+  endpoint = `http://127.0.0.1:${address.port}/mcp`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+  fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+describe("parseAuthTokens", () => {
+  it("should split, trim and drop empty tokens", () => {
+    expect(parseAuthTokens(" a, b ,,c ")).toEqual(["a", "b", "c"]);
+    expect(parseAuthTokens(undefined)).toEqual([]);
+  });
+});
+
+describe("runHttpServer", () => {
+  it("should reject requests without a valid bearer token", async () => {
+    const missing = await post(initializeRequest);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+
+    const wrong = await post(initializeRequest, { Authorization: "Bearer other-token" });
+    expect(wrong.status).toBe(401);
+  });
+
+  it("should start a session on initialize with a valid token", async () => {
+    const response = await post(initializeRequest, { Authorization: "Bearer team-token" });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("mcp-session-id")).toEqual(expect.any(String));
+    await response.body?.cancel();
+  });
+
+  it("should reject non-initialize requests without a session", async () => {
+    const response = await post(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { Authorization: "Bearer team-token" },
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it("should answer 413 for a body over 1 MiB", async () => {
+    const response = await post(
+      { ...initializeRequest, padding: "x".repeat(1024 * 1024) },
+      { Authorization: "Bearer team-token" },
+    );
+    expect(response.status).toBe(413);
+  });
+
+  it("should close sessions that stay idle", async () => {
+    const idleServer = await runHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      authTokens: ["team-token"],
+      config: {},
+      sessionIdleMs: 20,
+    });
+    const address = idleServer.address();
+    const idleEndpoint = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}/mcp`;
+    const request = (body: unknown, sessionId?: string) =>
+      fetch(idleEndpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          Authorization: "Bearer team-token",
+          ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+
+    try {
+      const initialized = await request(initializeRequest);
+      const sessionId = initialized.headers.get("mcp-session-id") ?? "";
+      await initialized.body?.cancel();
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const expired = await request({ jsonrpc: "2.0", id: 2, method: "tools/list" }, sessionId);
+      expect(expired.status).toBe(404);
+    } finally {
+      idleServer.closeAllConnections();
+      await new Promise((resolve) => idleServer.close(resolve));
+    }
+  });
+
+  it("should reject unknown session IDs", async () => {
+    const response = await post(
+      { jsonrpc: "2.0", id: 3, method: "tools/list" },
+      { Authorization: "Bearer team-token", "Mcp-Session-Id": "missing" },
+    );
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,233 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "./config.js";
+import { createServer, createSharedServices } from "./server.js";
+
+const MCP_PATH = "/mcp";
+const MAX_BODY_BYTES = 1024 * 1024;
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+
+/**
+ * Options for the Streamable HTTP server
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Bearer tokens accepted from MCP clients (not the Perplexity API key) */
+  authTokens: string[];
+  config: Config;
+  /** Sessions without requests for this long are closed (default 30 minutes) */
+  sessionIdleMs?: number;
+}
+
+/**
+ * A client session with its server instance and activity, for idle expiry
+ */
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Requests still being answered, including open event streams */
+  openRequests: number;
+  lastActivity: number;
+}
+
+/**
+ * Parses a comma-separated token list, ignoring blanks and surrounding whitespace.
+ *
+ * @param {string | undefined} value - The raw list, e.g. from PERPLEXITY_MCP_AUTH_TOKENS
+ * @returns {string[]} The tokens
+ */
+export function parseAuthTokens(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((token) => token.trim())
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Returns the bearer token if it matches one of the accepted tokens.
+ * Tokens are compared as SHA-256 digests in constant time, so neither the
+ * token contents nor their lengths leak through timing.
+ */
+function authenticate(request: IncomingMessage, authTokens: string[]): string | undefined {
+  const match = /^Bearer\s+(\S+)$/iu.exec(request.headers.authorization ?? "");
+  const token = match?.[1];
+  if (!token) {
+    return undefined;
+  }
+  const digest = createHash("sha256").update(token).digest();
+  const accepted = authTokens.some((candidate) =>
+    timingSafeEqual(digest, createHash("sha256").update(candidate).digest()),
+  );
+  return accepted ? token : undefined;
+}
+
+/**
+ * Reads and parses a JSON request body, up to MAX_BODY_BYTES.
+ */
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk));
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RangeError("Request body too large");
+    }
+    chunks.push(buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Writes a JSON-RPC error response without an id, as used for transport-level failures.
+ */
+function sendJsonRpcError(response: ServerResponse, status: number, message: string): void {
+  response.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32_000, message },
+      id: null,
+    }),
+  );
+}
+
+/**
+ * Starts the MCP server over Streamable HTTP at /mcp.
+ * Every request must carry one of the configured bearer tokens. Each client
+ * session gets its own McpServer instance, created on its initialize request
+ * and released when the session is closed or deleted, or once it has had no
+ * open request for sessionIdleMs, so clients that disappear without a DELETE
+ * do not leak sessions. Usage totals, budgets, rate limits and research jobs
+ * are shared by all client sessions.
+ *
+ * @param {HttpServerOptions} options - Listen address and accepted tokens
+ * @returns {Promise<Server>} The listening HTTP server
+ */
+export async function runHttpServer(options: HttpServerOptions): Promise<Server> {
+  const sessions = new Map<string, HttpSession>();
+  const shared = createSharedServices(options.config);
+  const idleMs = options.sessionIdleMs ?? SESSION_IDLE_MS;
+
+  const handleRequest = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (url.pathname !== MCP_PATH) {
+      sendJsonRpcError(response, 404, "Not found");
+      return;
+    }
+
+    const token = authenticate(request, options.authTokens);
+    if (!token) {
+      response.setHeader("WWW-Authenticate", 'Bearer realm="perplexity-agent-mcp"');
+      sendJsonRpcError(response, 401, "Unauthorized: missing or invalid bearer token");
+      return;
+    }
+    const auth: AuthInfo = { token, clientId: "bearer", scopes: [] };
+
+    let body: unknown;
+    if (request.method === "POST") {
+      try {
+        body = await readJsonBody(request);
+      } catch (error) {
+        if (error instanceof RangeError) {
+          sendJsonRpcError(response, 413, "Payload Too Large: request body exceeds 1 MiB");
+        } else {
+          sendJsonRpcError(response, 400, "Bad Request: invalid JSON body");
+        }
+        return;
+      }
+    }
+
+    const sessionHeader = request.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    let transport: StreamableHTTPServerTransport;
+
+    if (session) {
+      transport = session.transport;
+      session.openRequests += 1;
+      response.once("close", () => {
+        session.openRequests -= 1;
+        session.lastActivity = Date.now();
+      });
+    } else {
+      if (sessionId) {
+        sendJsonRpcError(response, 404, "Session not found");
+        return;
+      }
+      if (request.method !== "POST" || !isInitializeRequest(body)) {
+        sendJsonRpcError(response, 400, "Bad Request: no valid session ID provided");
+        return;
+      }
+
+      const server = createServer(options.config, shared);
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, {
+            transport: newTransport,
+            server,
+            openRequests: 0,
+            lastActivity: Date.now(),
+          });
+        },
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          sessions.delete(newTransport.sessionId);
+        }
+      };
+      await server.connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(Object.assign(request, { auth }), response, body);
+  };
+
+  const httpServer = createHttpServer((request, response) => {
+    handleRequest(request, response).catch((error: unknown) => {
+      console.error("Error handling MCP HTTP request:", error);
+      if (!response.headersSent) {
+        sendJsonRpcError(response, 500, "Internal server error");
+      }
+    });
+  });
+
+  const expireIdleSessions = setInterval(
+    () => {
+      const cutoff = Date.now() - idleMs;
+      for (const [id, session] of sessions) {
+        if (session.openRequests === 0 && session.lastActivity < cutoff) {
+          sessions.delete(id);
+          session.server.close().catch((error: unknown) => {
+            console.error("Error closing idle MCP session:", error);
+          });
+        }
+      }
+    },
+    Math.min(idleMs, 60 * 1000),
+  );
+  expireIdleSessions.unref();
+  httpServer.once("close", () => clearInterval(expireIdleSessions));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  // Restart research jobs that were interrupted when the server last stopped
+  await shared.jobs.resumeInterrupted();
+  return httpServer;
+}
@@ -1,3 +1,6 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
 import packageJson from "../package.json" with { type: "json" };
 import { afterEach, describe, expect, it, vi } from "vitest";
 
@@ -12,6 +15,8 @@ const importCli = () => import("./index.ts");
 
 const originalArgv = [...process.argv];
 const originalApiKey = process.env.PERPLEXITY_API_KEY;
+const originalAuthTokens = process.env.PERPLEXITY_MCP_AUTH_TOKENS;
+const originalConfig = process.env.PERPLEXITY_CONFIG;
 
 afterEach(() => {
   process.argv = [...originalArgv];
@@ -20,6 +25,16 @@ afterEach(() => {
   } else {
     process.env.PERPLEXITY_API_KEY = originalApiKey;
   }
+  if (originalAuthTokens === undefined) {
+    delete process.env.PERPLEXITY_MCP_AUTH_TOKENS;
+  } else {
+    process.env.PERPLEXITY_MCP_AUTH_TOKENS = originalAuthTokens;
+  }
+  if (originalConfig === undefined) {
+    delete process.env.PERPLEXITY_CONFIG;
+  } else {
+    process.env.PERPLEXITY_CONFIG = originalConfig;
+  }
   vi.restoreAllMocks();
   vi.resetModules();
 });
@@ -53,6 +68,33 @@ describe("cli entry point", () => {
     expect(exitSpy).toHaveBeenCalledWith(0);
   });
 
+  it("prints the usage when --help is provided", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation(((code?: number) => {
+      throw new ExitError(code);
+    }) as never);
+
+    process.argv = ["node", "index.ts", "--help"];
+    delete process.env.PERPLEXITY_API_KEY;
+
+    await expect(importCli()).rejects.toBeInstanceOf(ExitError);
+    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining("doctor"));
+    expect(exitSpy).toHaveBeenCalledWith(0);
+  });
+
+  it("runs a subcommand instead of starting the server", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation(((code?: number) => {
+      throw new ExitError(code);
+    }) as never);
+
+    process.argv = ["node", "index.ts", "lookup"];
+
+    await expect(importCli()).rejects.toBeInstanceOf(ExitError);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("lookup needs a query"));
+    expect(exitSpy).toHaveBeenCalledWith(2);
+  });
+
   it("requires PERPLEXITY_API_KEY when no version flag is provided", async () => {
     const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
     const exitSpy = vi.spyOn(process, "exit").mockImplementation(((code?: number) => {
@@ -68,4 +110,91 @@ describe("cli entry point", () => {
     );
     expect(exitSpy).toHaveBeenCalledWith(1);
   });
+
+  it("rejects unknown flags", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation(((code?: number) => {
+      throw new ExitError(code);
+    }) as never);
+
+    process.argv = ["node", "index.ts", "--nope"];
+
+    await expect(importCli()).rejects.toBeInstanceOf(ExitError);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("--nope"));
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it("rejects --record together with --replay", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation(((code?: number) => {
+      throw new ExitError(code);
+    }) as never);
+
+    process.argv = ["node", "index.ts", "--record", "fixtures", "--replay", "fixtures"];
+
+    await expect(importCli()).rejects.toBeInstanceOf(ExitError);
+    expect(errorSpy).toHaveBeenCalledWith("Error: --record and --replay cannot be used together");
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it("requires PERPLEXITY_MCP_AUTH_TOKENS in --http mode", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation(((code?: number) => {
+      throw new ExitError(code);
+    }) as never);
+
+    process.argv = ["node", "index.ts", "--http", "--port", "0"];
+    process.env.PERPLEXITY_API_KEY = "dummy-api-key";
+    delete process.env.PERPLEXITY_MCP_AUTH_TOKENS;
+
+    await expect(importCli()).rejects.toBeInstanceOf(ExitError);
+    expect(errorSpy).toHaveBeenCalledWith(
+      "Error: PERPLEXITY_MCP_AUTH_TOKENS environment variable is required with --http",
+    );
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it("rejects an invalid --port", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation(((code?: number) => {
+      throw new ExitError(code);
+    }) as never);
+
+    process.argv = ["node", "index.ts", "--http", "--port", "http"];
+    process.env.PERPLEXITY_API_KEY = "dummy-api-key";
+
+    await expect(importCli()).rejects.toBeInstanceOf(ExitError);
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Error: --port must be an integer between 0 and 65535, got "http"',
+    );
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it("fails at startup when the configuration is invalid", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation(((code?: number) => {
+      throw new ExitError(code);
+    }) as never);
+
+    const directory = await mkdtemp(path.join(tmpdir(), "perplexity-cli-"));
+    const configPath = path.join(directory, "config.json");
+    await writeFile(
+      configPath,
+      JSON.stringify({ tools: { lookup: { searchContextSize: "huge" } } }),
+    );
+
+    process.argv = ["node", "index.ts"];
+    process.env.PERPLEXITY_API_KEY = "dummy-api-key";
+    process.env.PERPLEXITY_CONFIG = configPath;
+
+    try {
+      await expect(importCli()).rejects.toBeInstanceOf(ExitError);
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("tools.lookup.searchContextSize"),
+      );
+      expect(exitSpy).toHaveBeenCalledWith(1);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
 });
@@ -1,32 +1,122 @@
 #!/usr/bin/env node
 
+import { parseArgs } from "node:util";
 import packageJson from "../package.json" with { type: "json" };
+import { isCommand, runCommand, USAGE } from "./cli.js";
+import { loadConfig } from "./config.js";
+import { parseAuthTokens, runHttpServer } from "./http-server.js";
+import { resolveFixtureSettings } from "./record-replay.js";
 import { runServer } from "./server.js";
 
 /**
  * Main entry point for the Perplexity MCP Server
  */
 
-const arguments_ = new Set(process.argv.slice(2));
+// lookup, answer and doctor run in the terminal instead of starting the server
+const [command, ...commandArguments] = process.argv.slice(2);
+if (isCommand(command)) {
+  process.exit(await runCommand(command, commandArguments));
+}
+
+let arguments_;
+try {
+  arguments_ = parseArgs({
+    options: {
+      version: { type: "boolean", short: "v" },
+      help: { type: "boolean", short: "h" },
+      http: { type: "boolean" },
+      port: { type: "string", default: "3000" },
+      host: { type: "string", default: "127.0.0.1" },
+      record: { type: "string" },
+      replay: { type: "string" },
+    },
+    strict: true,
+  }).values;
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
 
-if (arguments_.has("--version") || arguments_.has("-v")) {
+if (arguments_.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+if (arguments_.version) {
   console.log(packageJson.version);
   process.exit(0);
 }
 
+// --record <dir> and --replay <dir> are shorthands for the fixture environment variables
+if (arguments_.record !== undefined && arguments_.replay !== undefined) {
+  console.error("Error: --record and --replay cannot be used together");
+  process.exit(1);
+}
+const fixtureDirectory = arguments_.record ?? arguments_.replay;
+if (fixtureDirectory !== undefined) {
+  process.env.PERPLEXITY_FIXTURES_MODE = arguments_.record === undefined ? "replay" : "record";
+  process.env.PERPLEXITY_FIXTURES_DIR = fixtureDirectory;
+}
+
+let fixtures;
+try {
+  fixtures = resolveFixtureSettings();
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
 // Validate required environment variables
 // Preflight check to fail fast before starting the server for a clearer UX.
+// Replay mode serves recorded fixtures and never calls the API, so it needs no key.
 // Note: performChatCompletion() also validates PERPLEXITY_API_KEY as a defensive
 // guard when the client is used in isolation (e.g., tests or scripts).
 const PERPLEXITY_API_KEY = process.env.PERPLEXITY_API_KEY;
-if (!PERPLEXITY_API_KEY) {
+if (!PERPLEXITY_API_KEY && fixtures?.mode !== "replay") {
   console.error("Error: PERPLEXITY_API_KEY environment variable is required");
   process.exit(1);
 }
 
+// Validate configuration files and environment overrides before starting,
+// so a typo in a model name or context size is reported up front.
+let config;
 try {
-  await runServer();
+  config = await loadConfig();
 } catch (error) {
-  console.error("Fatal error running server:", error);
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
   process.exit(1);
 }
+
+if (arguments_.http) {
+  const port = Number(arguments_.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65_535) {
+    console.error(`Error: --port must be an integer between 0 and 65535, got "${arguments_.port}"`);
+    process.exit(1);
+  }
+
+  // HTTP mode is meant to be shared, so refuse to start without client tokens
+  const authTokens = parseAuthTokens(process.env.PERPLEXITY_MCP_AUTH_TOKENS);
+  if (authTokens.length === 0) {
+    console.error("Error: PERPLEXITY_MCP_AUTH_TOKENS environment variable is required with --http");
+    process.exit(1);
+  }
+
+  try {
+    const httpServer = await runHttpServer({ host: arguments_.host, port, authTokens, config });
+    const address = httpServer.address();
+    const boundPort = typeof address === "object" && address ? address.port : port;
+    console.error(
+      `Perplexity MCP Server running on http://${arguments_.host}:${boundPort}/mcp with Lookup and Answer tools`,
+    );
+  } catch (error) {
+    console.error("Fatal error running server:", error);
+    process.exit(1);
+  }
+} else {
+  try {
+    await runServer(config);
+  } catch (error) {
+    console.error("Fatal error running server:", error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,95 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  LoggingMessageNotificationSchema,
+  type LoggingMessageNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type LoggingSettings, registerLogging } from "./logging.ts";
+
+let directory: string;
+let messages: LoggingMessageNotification["params"][];
+
+const connect = async (settings: LoggingSettings) => {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  const logger = registerLogging(server, settings);
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+    messages.push(notification.params);
+  });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return { client, logger };
+};
+
+beforeEach(async () => {
+  messages = [];
+  directory = await mkdtemp(path.join(tmpdir(), "perplexity-logging-"));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("registerLogging", () => {
+  it("should declare the logging capability", async () => {
+    const { client } = await connect({ level: "info" });
+    expect(client.getServerCapabilities()?.logging).toEqual({});
+  });
+
+  it("should send structured messages at or above the configured level", async () => {
+    const { logger } = await connect({ level: "info" });
+
+    logger.debug("Sending chat completion request", { requestId: "r1" });
+    logger.info("Chat completion finished", { requestId: "r1", model: "sonar-pro", status: 200 });
+    await sleep(10);
+
+    expect(messages).toEqual([
+      {
+        level: "info",
+        logger: "perplexity-agent-mcp",
+        data: {
+          message: "Chat completion finished",
+          requestId: "r1",
+          model: "sonar-pro",
+          status: 200,
+        },
+      },
+    ]);
+  });
+
+  it("should apply the level set by the client", async () => {
+    const { client, logger } = await connect({ level: "info" });
+
+    await client.setLoggingLevel("debug");
+    logger.debug("Sending chat completion request");
+    await client.setLoggingLevel("error");
+    logger.warning("Chat completion returned empty content");
+    logger.error("Chat completion failed");
+    await sleep(10);
+
+    expect(messages.map((message) => message.level)).toEqual(["debug", "error"]);
+  });
+
+  it("should append traces as JSON lines with the API key redacted", async () => {
+    vi.stubEnv("PERPLEXITY_API_KEY", "secret-key-value");
+    const traceFile = path.join(directory, "trace.jsonl");
+    const { logger } = await connect({ level: "info", traceFile });
+
+    logger.trace({ requestId: "r1", request: { note: "secret-key-value" } });
+    logger.trace({ requestId: "r2", response: [{ choices: [] }] });
+    await sleep(50);
+
+    const lines = (await readFile(traceFile, "utf8")).trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      expect.objectContaining({ requestId: "r1", request: { note: "[REDACTED]" } }),
+      expect.objectContaining({ requestId: "r2", response: [{ choices: [] }] }),
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { appendFile } from "node:fs/promises";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  type LoggingLevel,
+  LoggingLevelSchema,
+  SetLevelRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { scrubSecrets } from "./secrets.js";
+
+const LOGGER_NAME = "perplexity-agent-mcp";
+
+/** Levels from least to most severe */
+const SEVERITY: readonly LoggingLevel[] = LoggingLevelSchema.options;
+
+/**
+ * Where log messages go and which are sent
+ */
+export interface LoggingSettings {
+  /** Least severe level sent until the client calls logging/setLevel */
+  level: LoggingLevel;
+  /** JSONL file receiving full request/response traces */
+  traceFile?: string;
+}
+
+/**
+ * Structured fields attached to a log message, e.g. requestId, model, latencyMs
+ */
+export type LogData = Record<string, unknown>;
+
+/**
+ * Leveled logger for API calls. trace() records full request/response bodies
+ * and is a no-op unless a trace file is configured.
+ */
+export interface Logger {
+  debug(message: string, data?: LogData): void;
+  info(message: string, data?: LogData): void;
+  warning(message: string, data?: LogData): void;
+  error(message: string, data?: LogData): void;
+  trace(record: LogData): void;
+}
+
+/**
+ * Appends JSON lines to a file in call order, with the API key and anything
+ * shaped like a key or bearer token redacted. Write failures are ignored.
+ */
+function createTraceWriter(filePath: string): (record: LogData) => void {
+  let pending = Promise.resolve();
+  return (record) => {
+    const line = scrubSecrets(JSON.stringify({ time: new Date().toISOString(), ...record }), [
+      process.env.PERPLEXITY_API_KEY ?? "",
+    ]);
+    pending = pending.then(() => appendFile(filePath, `${line}\n`)).catch(() => {});
+  };
+}
+
+/**
+ * Declares the MCP logging capability and returns a logger that sends
+ * notifications/message to the connected client. Messages below the level
+ * are dropped; clients change the level with logging/setLevel.
+ *
+ * @param {McpServer} server - The server to log through
+ * @param {LoggingSettings} settings - Initial level and optional trace file
+ * @returns {Logger} The logger
+ */
+export function registerLogging(server: McpServer, settings: LoggingSettings): Logger {
+  let minimumLevel = settings.level;
+
+  server.server.registerCapabilities({ logging: {} });
+  server.server.setRequestHandler(SetLevelRequestSchema, (request) => {
+    minimumLevel = request.params.level;
+    return {};
+  });
+
+  const send = (level: LoggingLevel, message: string, data: LogData = {}) => {
+    if (SEVERITY.indexOf(level) < SEVERITY.indexOf(minimumLevel)) {
+      return;
+    }
+    // Logging must never fail a tool call, e.g. when the client has disconnected
+    server.server
+      .sendLoggingMessage({ level, logger: LOGGER_NAME, data: { message, ...data } })
+      .catch(() => {});
+  };
+  const trace = settings.traceFile ? createTraceWriter(settings.traceFile) : undefined;
+
+  return {
+    debug: (message, data) => send("debug", message, data),
+    info: (message, data) => send("info", message, data),
+    warning: (message, data) => send("warning", message, data),
+    error: (message, data) => send("error", message, data),
+    trace: (record) => trace?.(record),
+  };
+}
@@ -1,101 +1,461 @@
-import { type ChatOptions, PerplexityResponse } from "./schemas.js";
-import { stripThinkContent } from "./strip-think-content.js";
+import { randomUUID } from "node:crypto";
+import { processCitations } from "./citations.js";
+import { createPerplexityProvider } from "./providers/perplexity.js";
+import type { SearchProvider } from "./providers/provider.js";
+import type {
+  AuthorityTier,
+  ChatCompletionResult,
+  ChatMessage,
+  ChatOptions,
+  SearchResult,
+  Usage,
+} from "./schemas.js";
+import {
+  AuthenticationError,
+  ParseError,
+  PerplexityError,
+  RateLimitError,
+  TimeoutError,
+  UpstreamError,
+} from "./errors.js";
+import { createFixtureFetch, type FetchFunction, resolveFixtureSettings } from "./record-replay.js";
+import { formatRedactions, redactMessages, type RedactionSettings } from "./redaction.js";
+import { parseRetryAfter, withRetry } from "./retry.js";
+import { classifySource } from "./source-authority.js";
+import { readServerSentEvents } from "./sse.js";
+import { createThinkParser, splitThinkContent } from "./strip-think-content.js";
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_CITATION_OPTIONS = { dangling: "flag", dropUncited: true } as const;
+const DEFAULT_REDACTION_SETTINGS: RedactionSettings = { mode: "mask", customPatterns: [] };
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+const defaultProvider = createPerplexityProvider();
+
+const TIER_LABELS: Record<AuthorityTier, string> = {
+  "source-code": "source code",
+  repository: "repository docs",
+  official: "official docs",
+  community: "community",
+};
 
 /**
- * Performs a chat completion by sending a request to the Perplexity API.
- * Filters out <think> blocks from reasoning models before returning content.
- *
- * @param {Array<{ role: string; content: string }>} messages - An array of message objects.
- * @param {ChatOptions} options - Options for the chat completion.
- * @returns {Promise<string>} The chat completion result content.
- * @throws Will throw an error if the API request fails.
+ * Cleans related questions for use as follow-ups: one line each, no blanks or duplicates.
  */
-export async function performChatCompletion(
-  messages: { role: string; content: string }[],
-  options: ChatOptions,
-): Promise<string> {
-  const apiKey = process.env.PERPLEXITY_API_KEY;
-  if (!apiKey) {
-    throw new Error(
-      "PERPLEXITY_API_KEY is not set. Please export it before calling performChatCompletion().",
+function toFollowUps(questions: string[] | undefined): string[] | undefined {
+  const followUps = [
+    ...new Set(questions?.map((question) => question.replaceAll(/\s+/gu, " ").trim())),
+  ].filter(Boolean);
+  return followUps.length > 0 ? followUps : undefined;
+}
+
+/**
+ * Maps a non-OK HTTP response to a typed Perplexity error.
+ */
+async function toResponseError(response: Response, apiName: string): Promise<PerplexityError> {
+  let errorText;
+  try {
+    errorText = await response.text();
+  } catch {
+    errorText = "Unable to parse error response";
+  }
+  const status = `${response.status} ${response.statusText}`;
+  const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+
+  if (response.status === 401 || response.status === 403) {
+    return new AuthenticationError(
+      `${apiName} rejected the API key: ${status}. Check PERPLEXITY_API_KEY.\n${errorText}`,
     );
   }
-  const url = new URL("https://api.perplexity.ai/chat/completions");
-  const body = {
-    model: options.model,
-    messages: [{ role: "system", content: options.system }, ...messages],
-    web_search_options: { search_context_size: options.searchContextSize },
-  };
+  if (response.status === 429) {
+    const retryHint =
+      retryAfterMs === undefined ? "" : ` Retry after ${Math.ceil(retryAfterMs / 1000)}s.`;
+    return new RateLimitError(
+      `${apiName} rate limit exceeded: ${status}.${retryHint}\n${errorText}`,
+      retryAfterMs,
+    );
+  }
+  return new UpstreamError(
+    `${apiName} error: ${status}\n${errorText}`,
+    response.status,
+    retryAfterMs,
+  );
+}
 
+/**
+ * Sends the streaming request and resolves once response headers arrive with an OK status.
+ */
+async function sendRequest(
+  fetchFunction: FetchFunction,
+  provider: SearchProvider,
+  apiKey: string,
+  body: Record<string, unknown>,
+  signal: AbortSignal,
+): Promise<Response> {
   let response;
   try {
-    response = await fetch(url.toString(), {
+    response = await fetchFunction(provider.url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        Accept: "text/event-stream",
         Authorization: `Bearer ${apiKey}`,
       },
       body: JSON.stringify(body),
+      signal,
     });
   } catch (error) {
+    // Let timeouts and cancellations propagate as aborts, and fixture errors as is
+    if (signal.aborted || error instanceof PerplexityError) {
+      throw error;
+    }
     const message = error instanceof Error ? error.message : String(error);
-    throw new Error(`Network error while calling Perplexity API: ${message}`, {
-      cause: error,
-    });
+    throw new UpstreamError(
+      `Network error while calling ${provider.name}: ${message}`,
+      undefined,
+      undefined,
+      {
+        cause: error,
+      },
+    );
   }
 
   if (!response.ok) {
-    let errorText;
-    try {
-      errorText = await response.text();
-    } catch {
-      errorText = "Unable to parse error response";
+    throw await toResponseError(response, provider.name);
+  }
+  return response;
+}
+
+/**
+ * Reads the server-sent chunks of a streaming response through the provider.
+ * Visible text is reported through onProgress as it arrives.
+ */
+async function readCompletionStream(
+  provider: SearchProvider,
+  response: Response,
+  signal: AbortSignal,
+  onProgress: ChatOptions["onProgress"],
+  onInvalidChunk: (issues: string) => void,
+): Promise<{
+  content: string;
+  searchResults: SearchResult[] | undefined;
+  relatedQuestions: string[] | undefined;
+  usage: Usage | undefined;
+  /** Every parsed chunk, in order, for tracing */
+  events: unknown[];
+}> {
+  if (!response.body) {
+    throw new ParseError(`${provider.name} returned an empty response body`);
+  }
+
+  const thinkParser = createThinkParser();
+  let content = "";
+  let searchResults: SearchResult[] | undefined;
+  let relatedQuestions: string[] | undefined;
+  let usage: Usage | undefined;
+  const events: unknown[] = [];
+
+  try {
+    for await (const data of readServerSentEvents(response.body)) {
+      if (data === "[DONE]") {
+        break;
+      }
+
+      let json: unknown;
+      try {
+        json = JSON.parse(data);
+      } catch (jsonError) {
+        const message = jsonError instanceof Error ? jsonError.message : String(jsonError);
+        throw new ParseError(`Failed to parse streamed chunk from ${provider.name}: ${message}`, {
+          cause: jsonError,
+        });
+      }
+
+      events.push(json);
+      const chunk = provider.parseChunk(json);
+      if (!chunk) {
+        continue;
+      }
+      if (chunk.invalid !== undefined) {
+        onInvalidChunk(chunk.invalid);
+        continue;
+      }
+
+      if (chunk.content) {
+        content += chunk.content;
+        const visible = thinkParser.push(chunk.content);
+        if (visible) {
+          onProgress?.(visible);
+        }
+      }
+
+      // Search results are repeated on chunks; keep the latest non-empty list
+      const chunkSources = provider.extractSources(json);
+      if (chunkSources && chunkSources.length > 0) {
+        searchResults = chunkSources;
+      }
+      if (chunk.relatedQuestions && chunk.relatedQuestions.length > 0) {
+        relatedQuestions = chunk.relatedQuestions;
+      }
+      usage = chunk.usage ?? usage;
+    }
+  } catch (streamError) {
+    if (streamError instanceof PerplexityError || signal.aborted) {
+      throw streamError;
     }
-    throw new Error(
-      `Perplexity API error: ${response.status} ${response.statusText}\n${errorText}`,
+    const message = streamError instanceof Error ? streamError.message : String(streamError);
+    throw new UpstreamError(
+      `Failed to read streamed response from ${provider.name}: ${message}`,
+      undefined,
+      undefined,
+      { cause: streamError },
+    );
+  }
+
+  const remaining = thinkParser.flush();
+  if (remaining) {
+    onProgress?.(remaining);
+  }
+
+  return { content, searchResults, relatedQuestions, usage, events };
+}
+
+/**
+ * Performs a chat completion by sending a streaming request to the search provider
+ * (options.provider, the Perplexity API by default).
+ * Content is accumulated from server-sent chunks; visible text is reported through
+ * options.onProgress as it arrives. <think> blocks from reasoning models are removed
+ * from the content and returned separately as the result's reasoning.
+ *
+ * Rate limits (429), 5xx responses and network failures are retried with exponential
+ * backoff before the stream starts. The whole call is bounded by options.timeoutMs,
+ * and aborting options.signal cancels the upstream request. When PERPLEXITY_FIXTURES_MODE
+ * is set, requests are recorded to or replayed from fixture files; replay needs no API key.
+ *
+ * Each source is rated with an authority tier (see classifySource()).
+ *
+ * Sensitive data in the messages is masked before anything is sent (see redactMessages());
+ * in strict redaction mode the call fails instead. The result lists what was masked.
+ *
+ * With options.rateLimiter, the call first waits for a slot in the shared queue; the wait
+ * counts towards the timeout.
+ *
+ * Each call gets a request ID that options.logger receives with the model, HTTP status,
+ * latency, queue wait and any chunks that failed schema validation, plus a full trace.
+ *
+ * @param {ChatMessage[]} messages - An array of message objects.
+ * @param {ChatOptions} options - Options for the chat completion.
+ * @returns {Promise<ChatCompletionResult>} The answer content, its numbered sources and usage.
+ * @throws {PerplexityError} A typed error when the API request fails or times out, or
+ * when strict redaction blocks it.
+ */
+export async function performChatCompletion(
+  messages: ChatMessage[],
+  options: ChatOptions,
+): Promise<ChatCompletionResult> {
+  const provider = options.provider ?? defaultProvider;
+  const fixtures = resolveFixtureSettings();
+  const apiKey = process.env.PERPLEXITY_API_KEY ?? "";
+  if (!apiKey && fixtures?.mode !== "replay") {
+    throw new AuthenticationError(
+      "PERPLEXITY_API_KEY is not set. Please export it before calling performChatCompletion().",
     );
   }
+  const { messages: outbound, redactions } = redactMessages(
+    messages,
+    options.redaction ?? DEFAULT_REDACTION_SETTINGS,
+  );
+  const body = provider.buildRequest(outbound, options);
+  const baseFetch = fixtures ? createFixtureFetch(fixtures, [apiKey]) : fetch;
 
-  let json: unknown;
+  const { logger, model } = options;
+  const requestId = randomUUID();
+  const startedAt = performance.now();
+  if (redactions.length > 0) {
+    logger?.info("Masked sensitive data before sending", { requestId, model, redactions });
+  }
+  let attempts = 0;
+  let status: number | undefined;
+  const fetchFunction: FetchFunction = async (url, init) => {
+    attempts += 1;
+    logger?.debug("Sending chat completion request", {
+      requestId,
+      provider: provider.name,
+      model,
+      attempt: attempts,
+      queueWaitMs,
+    });
+    const response = await baseFetch(url, init);
+    status = response.status;
+    return response;
+  };
+  const onInvalidChunk = (issues: string) => {
+    logger?.warning("Skipped a streamed chunk that failed schema validation", {
+      requestId,
+      model,
+      issues,
+    });
+  };
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal;
+
+  let streamed;
+  let queueWaitMs = 0;
+  let releaseSlot: (() => void) | undefined;
+  // Every attempt takes its own slot, so retries are throttled like new requests.
+  // A failed attempt frees its slot before the backoff; a successful one keeps
+  // it until the stream has been read.
+  const attempt = async () => {
+    if (options.rateLimiter) {
+      const slot = await options.rateLimiter.acquire(model, options.priority ?? "normal", signal);
+      queueWaitMs += slot.waitMs;
+      releaseSlot = slot.release;
+    }
+    try {
+      return await sendRequest(fetchFunction, provider, apiKey, body, signal);
+    } catch (error) {
+      releaseSlot?.();
+      releaseSlot = undefined;
+      throw error;
+    }
+  };
   try {
-    json = await response.json();
-  } catch (jsonError) {
-    const message = jsonError instanceof Error ? jsonError.message : String(jsonError);
-    throw new Error(`Failed to parse JSON response from Perplexity API: ${message}`, {
-      cause: jsonError,
+    const response = await withRetry(attempt, {
+      maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS,
+      signal,
+    });
+    streamed = await readCompletionStream(
+      provider,
+      response,
+      signal,
+      options.onProgress,
+      onInvalidChunk,
+    );
+  } catch (error) {
+    const failure =
+      timeoutSignal.aborted && !options.signal?.aborted
+        ? new TimeoutError(`${provider.name} request timed out after ${timeoutMs}ms`, {
+            cause: error,
+          })
+        : error;
+    const latencyMs = Math.round(performance.now() - startedAt);
+    const errorName = failure instanceof Error ? failure.name : "Error";
+    const errorMessage = failure instanceof Error ? failure.message : String(failure);
+    logger?.error("Chat completion failed", {
+      requestId,
+      model,
+      status,
+      attempts,
+      latencyMs,
+      queueWaitMs,
+      error: errorName,
+      errorMessage,
     });
+    logger?.trace({ requestId, url: provider.url, request: body, status, latencyMs, errorMessage });
+    throw failure;
+  } finally {
+    releaseSlot?.();
   }
+  const latencyMs = Math.round(performance.now() - startedAt);
+
+  // Separate <think> blocks from reasoning models (e.g., sonar-reasoning-pro) from the answer
+  // These blocks contain internal reasoning tokens that must not be part of the answer
+  const { content: answer, reasoning } = splitThinkContent(streamed.content);
+  const content = answer.trim();
 
-  const parsedResponse = PerplexityResponse.safeParse(json);
+  // Number sources in order so they line up with inline [n] citations,
+  // then reconcile the markers with the sources that actually exist
+  const sources = (streamed.searchResults ?? []).map((sr, index) => ({ index: index + 1, ...sr }));
+  const processed = processCitations(
+    content,
+    sources,
+    options.citations ?? DEFAULT_CITATION_OPTIONS,
+  );
+
+  logger?.info("Chat completion finished", {
+    requestId,
+    model,
+    status,
+    attempts,
+    latencyMs,
+    queueWaitMs,
+    contentLength: processed.content.length,
+    sources: processed.sources.length,
+    usage: streamed.usage,
+  });
+  if (!processed.content) {
+    logger?.warning("Chat completion returned empty content", {
+      requestId,
+      model,
+      chunks: streamed.events.length,
+    });
+  }
+  logger?.trace({
+    requestId,
+    url: provider.url,
+    request: body,
+    status,
+    latencyMs,
+    response: streamed.events,
+  });
+  return {
+    ...processed,
+    sources: processed.sources.map((source) => {
+      const tier = classifySource(source.url, options.authorityRules);
+      return tier ? { ...source, tier } : source;
+    }),
+    usage: streamed.usage,
+    redactions: redactions.length > 0 ? redactions : undefined,
+    reasoning: reasoning || undefined,
+    relatedQuestions: toFollowUps(streamed.relatedQuestions),
+  };
+}
 
-  let messageContent: string = parsedResponse.success
-    ? (parsedResponse.data.choices?.[0]?.message?.content ?? "")
-    : "";
+/**
+ * Renders a chat completion as plain text for clients without structured output support.
+ * Appends a Sources section listing all sources in order with their authority tiers, a
+ * Follow-ups section with one suggested question per line, a note on citations that
+ * referenced no source, what was masked in the question before sending, and a note when
+ * the result was served from cache.
+ *
+ * @param {ChatCompletionResult} result - The chat completion result.
+ * @returns {string} The answer text followed by its Sources section.
+ */
+export function formatCompletionText(result: ChatCompletionResult): string {
+  let text = result.content;
 
-  // Filter out <think> blocks from reasoning models (e.g., sonar-reasoning-pro)
-  // These blocks contain internal reasoning tokens that should not be exposed to MCP clients
-  messageContent = stripThinkContent(messageContent);
+  if (result.sources.length > 0) {
+    const lines = result.sources.map((source) => {
+      const dateSuffix = source.date ? ` (${source.date})` : "";
+      const tierSuffix = source.tier ? ` [${TIER_LABELS[source.tier]}]` : "";
+      return `[${source.index}] ${source.title} — ${source.url}${dateSuffix}${tierSuffix}`;
+    });
+    text = `${text}\n\nSources:\n${lines.join("\n")}`;
+  }
 
-  // Build final content and normalize whitespace consistently
+  if (result.relatedQuestions && result.relatedQuestions.length > 0) {
+    text = `${text}\n\nFollow-ups:\n${result.relatedQuestions.join("\n")}`;
+  }
 
-  // Append Sources section by rendering all search_results in order.
-  if (parsedResponse.success && parsedResponse.data.search_results) {
-    const results = parsedResponse.data.search_results;
-    if (results.length > 0) {
-      const lines = results.map((sr, index) => {
-        const index_ = index + 1;
-        const dateSuffix = sr.date ? ` (${sr.date})` : "";
-        return `[${index_}] ${sr.title} — ${sr.url}${dateSuffix}`;
-      });
-      messageContent = `${messageContent}\n\nSources:\n${lines.join("\n")}`;
-    }
+  if (result.danglingCitations && result.danglingCitations.length > 0) {
+    const markers = result.danglingCitations.map((number) => `[${number}]`).join(", ");
+    text = `${text}\n\nUnresolved citations (no matching source): ${markers}`;
   }
 
-  // Trim leading and trailing whitespace, then ensure one trailing newline
-  messageContent = messageContent.trim();
+  if (result.redactions && result.redactions.length > 0) {
+    text = `${text}\n\nMasked before sending: ${formatRedactions(result.redactions)}`;
+  }
 
-  // Ensure trailing newline in final response
-  messageContent += "\n";
+  if (result.cachedAt) {
+    text = `${text}\n\n(Served from cache; originally retrieved ${result.cachedAt})`;
+  }
 
-  return messageContent;
+  // Trim leading and trailing whitespace, then ensure one trailing newline
+  return `${text.trim()}\n`;
 }
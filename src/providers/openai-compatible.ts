@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { SearchResult, Usage } from "../schemas.js";
+import { chatCompletionsUrl, type SearchProvider } from "./provider.js";
+
+/**
+ * Schema for a streamed chunk of an OpenAI-compatible API. Sources are read
+ * from whichever field the backend uses: Perplexity-style search_results, a
+ * citations URL list, or url_citation annotations.
+ */
+const OpenAIChunk = z.object({
+  choices: z
+    .array(
+      z.object({
+        delta: z
+          .object({
+            content: z.string().nullish(),
+            annotations: z
+              .array(
+                z.object({
+                  type: z.string(),
+                  url_citation: z
+                    .object({ url: z.string(), title: z.string().optional() })
+                    .optional(),
+                }),
+              )
+              .optional(),
+          })
+          .optional(),
+      }),
+    )
+    .optional(),
+  search_results: z.array(SearchResult).optional(),
+  citations: z.array(z.string()).optional(),
+  usage: Usage.nullish(),
+});
+
+/**
+ * Creates a provider for any OpenAI-compatible chat completions API, such as a
+ * gateway or a local stand-in. Only standard request fields are sent, so
+ * search filters and the search context size are not applied.
+ *
+ * @param {string} baseUrl - API base URL, e.g. "http://localhost:8080/v1"
+ * @returns {SearchProvider} The provider
+ */
+export function createOpenAICompatibleProvider(baseUrl: string): SearchProvider {
+  return {
+    name: `OpenAI-compatible API at ${new URL(baseUrl).host}`,
+    url: chatCompletionsUrl(baseUrl),
+
+    buildRequest(messages, options) {
+      return {
+        model: options.model,
+        messages: [{ role: "system", content: options.system }, ...messages],
+        stream: true,
+        stream_options: { include_usage: true },
+      };
+    },
+
+    parseChunk(json) {
+      const parsed = OpenAIChunk.safeParse(json);
+      if (!parsed.success) {
+        return { content: "", invalid: z.prettifyError(parsed.error) };
+      }
+      return {
+        content: parsed.data.choices?.[0]?.delta?.content ?? "",
+        usage: parsed.data.usage ?? undefined,
+      };
+    },
+
+    extractSources(json) {
+      const parsed = OpenAIChunk.safeParse(json);
+      if (!parsed.success) {
+        return undefined;
+      }
+      const { search_results: searchResults, citations, choices } = parsed.data;
+      if (searchResults && searchResults.length > 0) {
+        return searchResults;
+      }
+      if (citations && citations.length > 0) {
+        return citations.map((url) => ({ title: url, url }));
+      }
+      const annotations = (choices?.[0]?.delta?.annotations ?? []).flatMap((annotation) =>
+        annotation.url_citation
+          ? [
+              {
+                title: annotation.url_citation.title ?? annotation.url_citation.url,
+                url: annotation.url_citation.url,
+              },
+            ]
+          : [],
+      );
+      return annotations.length > 0 ? annotations : undefined;
+    },
+  };
+}
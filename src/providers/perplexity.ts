@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { PerplexityResponse } from "../schemas.js";
+import { toSearchFilterFields } from "../search-filters.js";
+import { chatCompletionsUrl, type SearchProvider } from "./provider.js";
+
+const DEFAULT_BASE_URL = "https://api.perplexity.ai";
+
+/**
+ * Creates the Perplexity provider. Requests carry the search context size,
+ * search filters and, when asked for, return_related_questions; sources come
+ * from search_results and follow-ups from related_questions on the streamed chunks.
+ *
+ * @param {string} baseUrl - API base URL, e.g. an internal gateway in front of Perplexity
+ * @returns {SearchProvider} The provider
+ */
+export function createPerplexityProvider(baseUrl = DEFAULT_BASE_URL): SearchProvider {
+  return {
+    name: "Perplexity API",
+    url: chatCompletionsUrl(baseUrl),
+
+    buildRequest(messages, options) {
+      return {
+        model: options.model,
+        messages: [{ role: "system", content: options.system }, ...messages],
+        web_search_options: { search_context_size: options.searchContextSize },
+        ...toSearchFilterFields(options.searchFilters ?? {}),
+        ...(options.relatedQuestions ? { return_related_questions: true } : {}),
+        stream: true,
+      };
+    },
+
+    parseChunk(json) {
+      const parsed = PerplexityResponse.safeParse(json);
+      if (!parsed.success) {
+        return { content: "", invalid: z.prettifyError(parsed.error) };
+      }
+      return {
+        content: parsed.data.choices?.[0]?.delta?.content ?? "",
+        usage: parsed.data.usage,
+        relatedQuestions: parsed.data.related_questions,
+      };
+    },
+
+    extractSources(json) {
+      return PerplexityResponse.safeParse(json).data?.search_results;
+    },
+  };
+}
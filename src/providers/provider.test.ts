@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { createOpenAICompatibleProvider } from "./openai-compatible.ts";
+import { createPerplexityProvider } from "./perplexity.ts";
+import { chatCompletionsUrl, createProvider } from "./provider.ts";
+
+const options = {
+  model: "sonar-pro",
+  system: "prompt",
+  searchContextSize: "high" as const,
+  searchFilters: { includeDomains: ["nodejs.org"] },
+};
+const messages = [{ role: "user", content: "q" }];
+
+describe("chatCompletionsUrl", () => {
+  it("should append the endpoint below any path prefix", () => {
+    expect(chatCompletionsUrl("https://api.perplexity.ai")).toBe(
+      "https://api.perplexity.ai/chat/completions",
+    );
+    expect(chatCompletionsUrl("http://localhost:8080/v1/")).toBe(
+      "http://localhost:8080/v1/chat/completions",
+    );
+  });
+});
+
+describe("createProvider", () => {
+  it("should default to Perplexity and honor a custom base URL", () => {
+    expect(createProvider({ type: "perplexity" }).url).toBe(
+      "https://api.perplexity.ai/chat/completions",
+    );
+    expect(
+      createProvider({ type: "perplexity", baseUrl: "https://gateway.internal/pplx" }).url,
+    ).toBe("https://gateway.internal/pplx/chat/completions");
+    expect(
+      createProvider({ type: "openai-compatible", baseUrl: "http://localhost:8080/v1" }).name,
+    ).toBe("OpenAI-compatible API at localhost:8080");
+  });
+});
+
+describe("createPerplexityProvider", () => {
+  const provider = createPerplexityProvider();
+
+  it("should send the search context size and filters", () => {
+    expect(provider.buildRequest(messages, options)).toEqual({
+      model: "sonar-pro",
+      messages: [{ role: "system", content: "prompt" }, ...messages],
+      web_search_options: { search_context_size: "high" },
+      search_domain_filter: ["nodejs.org"],
+      stream: true,
+    });
+  });
+
+  it("should ask for related questions only when requested", () => {
+    expect(provider.buildRequest(messages, { ...options, relatedQuestions: true })).toMatchObject({
+      return_related_questions: true,
+    });
+    expect(provider.buildRequest(messages, options)).not.toHaveProperty("return_related_questions");
+  });
+
+  it("should parse related questions", () => {
+    expect(
+      provider.parseChunk({
+        choices: [{ delta: { content: "" } }],
+        related_questions: ["How do I migrate from zod 3 to zod 4?"],
+      }),
+    ).toMatchObject({ relatedQuestions: ["How do I migrate from zod 3 to zod 4?"] });
+  });
+
+  it("should parse delta text, usage and search results", () => {
+    const chunk = {
+      choices: [{ delta: { content: "Hi" } }],
+      search_results: [{ title: "Docs", url: "https://nodejs.org" }],
+      usage: { prompt_tokens: 1, completion_tokens: 2 },
+    };
+    expect(provider.parseChunk(chunk)).toEqual({
+      content: "Hi",
+      usage: { prompt_tokens: 1, completion_tokens: 2 },
+    });
+    expect(provider.extractSources(chunk)).toEqual([{ title: "Docs", url: "https://nodejs.org" }]);
+  });
+
+  it("should report schema validation issues for malformed chunks", () => {
+    expect(provider.parseChunk({ choices: [{ delta: { content: 42 } }] })).toEqual({
+      content: "",
+      invalid: expect.stringContaining("choices[0].delta.content"),
+    });
+  });
+});
+
+describe("createOpenAICompatibleProvider", () => {
+  const provider = createOpenAICompatibleProvider("http://localhost:8080/v1");
+
+  it("should send only standard request fields", () => {
+    expect(provider.buildRequest(messages, options)).toEqual({
+      model: "sonar-pro",
+      messages: [{ role: "system", content: "prompt" }, ...messages],
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  });
+
+  it("should accept null content and usage on chunks", () => {
+    expect(provider.parseChunk({ choices: [{ delta: { content: null } }], usage: null })).toEqual({
+      content: "",
+      usage: undefined,
+    });
+  });
+
+  it("should extract sources from citations or url_citation annotations", () => {
+    expect(provider.extractSources({ citations: ["https://a.com"] })).toEqual([
+      { title: "https://a.com", url: "https://a.com" },
+    ]);
+    expect(
+      provider.extractSources({
+        choices: [
+          {
+            delta: {
+              annotations: [
+                { type: "url_citation", url_citation: { url: "https://b.com", title: "B" } },
+              ],
+            },
+          },
+        ],
+      }),
+    ).toEqual([{ title: "B", url: "https://b.com" }]);
+    expect(provider.extractSources({ choices: [{ delta: { content: "x" } }] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import type { ChatMessage, ChatOptions, SearchResult, Usage } from "../schemas.js";
+import { createOpenAICompatibleProvider } from "./openai-compatible.js";
+import { createPerplexityProvider } from "./perplexity.js";
+
+/**
+ * Text and usage carried by one streamed chunk
+ */
+export interface ParsedChunk {
+  /** Incremental answer text, including any <think> blocks */
+  content: string;
+  usage?: Usage;
+  /** Related questions, when the provider returns them */
+  relatedQuestions?: string[];
+  /** Schema validation issues when the chunk did not match the expected shape and was skipped */
+  invalid?: string;
+}
+
+/**
+ * A search-augmented chat completions API. The client handles transport,
+ * retries, streaming and citation processing; a provider only knows its
+ * endpoint, its request body and its response shape.
+ */
+export interface SearchProvider {
+  /** Name used in error messages, e.g. "Perplexity API" */
+  name: string;
+  /** Chat completions endpoint */
+  url: string;
+  /** Builds the JSON body of a streaming chat completion request */
+  buildRequest(messages: ChatMessage[], options: ChatOptions): Record<string, unknown>;
+  /** Parses one streamed JSON chunk; returns undefined for chunks to skip silently */
+  parseChunk(json: unknown): ParsedChunk | undefined;
+  /** Extracts the search results carried by a chunk, if any */
+  extractSources(json: unknown): SearchResult[] | undefined;
+}
+
+/**
+ * Settings selecting and configuring the search provider
+ */
+export interface ProviderSettings {
+  type: "perplexity" | "openai-compatible";
+  /** API base URL; "/chat/completions" is appended */
+  baseUrl?: string;
+}
+
+/**
+ * Resolves the chat completions endpoint below a base URL, keeping any path
+ * prefix such as "/v1".
+ *
+ * @param {string} baseUrl - The API base URL
+ * @returns {string} The chat completions URL
+ */
+export function chatCompletionsUrl(baseUrl: string): string {
+  return new URL("chat/completions", baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`).toString();
+}
+
+/**
+ * Creates the provider selected by the settings.
+ *
+ * @param {ProviderSettings} settings - Provider type and base URL
+ * @returns {SearchProvider} The provider
+ */
+export function createProvider(settings: ProviderSettings): SearchProvider {
+  return settings.type === "openai-compatible" && settings.baseUrl
+    ? createOpenAICompatibleProvider(settings.baseUrl)
+    : createPerplexityProvider(settings.baseUrl);
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { QueueFullError } from "./errors.ts";
+import { createRateLimiter, type RateLimitSettings, type RateLimitSlot } from "./rate-limiter.ts";
+
+const settings = (overrides: Partial<RateLimitSettings> = {}): RateLimitSettings => ({
+  models: {},
+  defaults: { requestsPerMinute: 60, maxConcurrency: 1 },
+  maxQueueSize: 10,
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createRateLimiter", () => {
+  it("should grant a slot immediately when the model is idle", async () => {
+    const limiter = createRateLimiter(settings());
+    const slot = await limiter.acquire("sonar-pro", "normal");
+    expect(slot.waitMs).toBe(0);
+  });
+
+  it("should start high priority requests before earlier normal ones", async () => {
+    const limiter = createRateLimiter(settings());
+    const order: string[] = [];
+    const first = await limiter.acquire("sonar-pro", "normal");
+
+    const answer = limiter.acquire("sonar-pro", "normal").then((slot) => {
+      order.push("answer");
+      return slot;
+    });
+    const lookup = limiter.acquire("sonar-pro", "high").then((slot) => {
+      order.push("lookup");
+      return slot;
+    });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    first.release();
+    (await lookup).release();
+    await answer;
+
+    expect(order).toEqual(["lookup", "answer"]);
+    expect((await lookup).waitMs).toBe(5000);
+  });
+
+  it("should space requests out once the token bucket is empty", async () => {
+    const limiter = createRateLimiter(
+      settings({ defaults: { requestsPerMinute: 2, maxConcurrency: 10 } }),
+    );
+    await limiter.acquire("sonar", "normal");
+    await limiter.acquire("sonar", "normal");
+
+    const third = vi.fn<(slot: RateLimitSlot) => void>();
+    void limiter.acquire("sonar", "normal").then(third);
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(third).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(third).toHaveBeenCalledWith(expect.objectContaining({ waitMs: 30_000 }));
+  });
+
+  it("should apply per-model limits independently", async () => {
+    const limiter = createRateLimiter(
+      settings({ models: { sonar: { requestsPerMinute: 60, maxConcurrency: 2 } } }),
+    );
+    await limiter.acquire("sonar-pro", "normal");
+    await limiter.acquire("sonar", "normal");
+    const slot = await limiter.acquire("sonar", "normal");
+    expect(slot.waitMs).toBe(0);
+  });
+
+  it("should fail fast when the queue is full", async () => {
+    const limiter = createRateLimiter(settings({ maxQueueSize: 1 }));
+    await limiter.acquire("sonar-pro", "normal");
+    void limiter.acquire("sonar-pro", "normal");
+
+    await expect(limiter.acquire("sonar-pro", "high")).rejects.toThrow(QueueFullError);
+  });
+
+  it("should drop aborted requests from the queue", async () => {
+    const limiter = createRateLimiter(settings({ maxQueueSize: 1 }));
+    const first = await limiter.acquire("sonar-pro", "normal");
+    const controller = new AbortController();
+
+    const queued = limiter.acquire("sonar-pro", "normal", controller.signal);
+    controller.abort(new Error("cancelled"));
+    await expect(queued).rejects.toThrow("cancelled");
+
+    const next = limiter.acquire("sonar-pro", "normal");
+    first.release();
+    await expect(next).resolves.toMatchObject({ waitMs: 0 });
+  });
+});
@@ -0,0 +1,164 @@
+import { QueueFullError } from "./errors.js";
+
+/**
+ * Client-side limits for one model
+ */
+export interface ModelRateLimit {
+  /** Token bucket size and refill rate; short bursts up to this many are allowed */
+  requestsPerMinute: number;
+  /** Requests in flight at the same time, including streaming */
+  maxConcurrency: number;
+}
+
+/**
+ * Rate limits per model, with a fallback for unlisted models
+ */
+export interface RateLimitSettings {
+  models: Record<string, ModelRateLimit>;
+  defaults: ModelRateLimit;
+  /** Requests allowed to wait per model before new ones fail with QueueFullError */
+  maxQueueSize: number;
+}
+
+/**
+ * Queue priority: high requests (quick lookups) go ahead of normal ones
+ */
+export type RequestPriority = "high" | "normal";
+
+/**
+ * A granted request slot
+ */
+export interface RateLimitSlot {
+  /** Time spent in the queue */
+  waitMs: number;
+  /** Frees the concurrency slot; call once the request has finished */
+  release(): void;
+}
+
+/**
+ * Token-bucket rate limiter with a priority queue per model
+ */
+export interface RateLimiter {
+  /**
+   * Waits for a request slot. Rejects with QueueFullError when the model's
+   * queue is full, or with the signal's reason when it aborts while queued.
+   */
+  acquire(model: string, priority: RequestPriority, signal?: AbortSignal): Promise<RateLimitSlot>;
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 0, normal: 1 };
+
+interface Waiter {
+  rank: number;
+  start(): void;
+}
+
+interface ModelState {
+  tokens: number;
+  updatedAt: number;
+  active: number;
+  queue: Waiter[];
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Creates a rate limiter shared by all tools (and, over HTTP, all sessions).
+ * Each model has a token bucket that refills continuously at
+ * requestsPerMinute and a concurrency cap; requests that cannot start wait in
+ * a queue ordered by priority, then arrival.
+ *
+ * @param {RateLimitSettings} settings - Limits per model and queue size
+ * @param {() => number} now - Clock, injectable for tests
+ * @returns {RateLimiter} The limiter
+ */
+export function createRateLimiter(
+  settings: RateLimitSettings,
+  now: () => number = Date.now,
+): RateLimiter {
+  const states = new Map<string, ModelState>();
+  const limitFor = (model: string) => settings.models[model] ?? settings.defaults;
+
+  const stateFor = (model: string) => {
+    let state = states.get(model);
+    if (!state) {
+      state = { tokens: limitFor(model).requestsPerMinute, updatedAt: now(), active: 0, queue: [] };
+      states.set(model, state);
+    }
+    return state;
+  };
+
+  // Starts queued requests while tokens and concurrency allow, and schedules
+  // a wake-up for the next token when only the bucket is holding them back
+  const pump = (model: string) => {
+    const state = stateFor(model);
+    const limit = limitFor(model);
+    const time = now();
+    state.tokens = Math.min(
+      limit.requestsPerMinute,
+      state.tokens + ((time - state.updatedAt) * limit.requestsPerMinute) / 60_000,
+    );
+    state.updatedAt = time;
+
+    while (state.active < limit.maxConcurrency && state.tokens >= 1) {
+      const waiter = state.queue.shift();
+      if (!waiter) {
+        break;
+      }
+      state.tokens -= 1;
+      state.active += 1;
+      waiter.start();
+    }
+
+    if (state.queue.length > 0 && state.active < limit.maxConcurrency && !state.timer) {
+      const delayMs = Math.ceil(((1 - state.tokens) * 60_000) / limit.requestsPerMinute);
+      state.timer = setTimeout(() => {
+        state.timer = undefined;
+        pump(model);
+      }, delayMs);
+    }
+  };
+
+  return {
+    async acquire(model, priority, signal) {
+      signal?.throwIfAborted();
+      const state = stateFor(model);
+      if (state.queue.length >= settings.maxQueueSize) {
+        throw new QueueFullError(
+          `Client-side request queue for ${model} is full (${settings.maxQueueSize} requests waiting). Retry later or raise rateLimits.maxQueueSize.`,
+        );
+      }
+
+      const enqueuedAt = now();
+      return new Promise<RateLimitSlot>((resolve, reject) => {
+        const onAbort = () => {
+          state.queue = state.queue.filter((queued) => queued !== waiter);
+          reject(signal?.reason);
+        };
+        const waiter: Waiter = {
+          rank: PRIORITY_RANK[priority],
+          start() {
+            signal?.removeEventListener("abort", onAbort);
+            let released = false;
+            resolve({
+              waitMs: now() - enqueuedAt,
+              release() {
+                if (released) {
+                  return;
+                }
+                released = true;
+                state.active -= 1;
+                pump(model);
+              },
+            });
+          },
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        // Insert after every waiter of the same or higher priority
+        const index = state.queue.findIndex((queued) => queued.rank > waiter.rank);
+        state.queue.splice(index === -1 ? state.queue.length : index, 0, waiter);
+        pump(model);
+      });
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ConfigError, FixtureError } from "./errors.ts";
+import {
+  createFixtureFetch,
+  type FetchFunction,
+  fixtureKey,
+  resolveFixtureSettings,
+} from "./record-replay.ts";
+
+const ENDPOINT = "https://api.perplexity.ai/chat/completions";
+const API_KEY = "pplx-0123456789abcdef";
+
+const requestInit = (question: string, system = "Be precise.") => ({
+  method: "POST",
+  headers: { Authorization: `Bearer ${API_KEY}` },
+  body: JSON.stringify({
+    model: "sonar-pro",
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: question },
+    ],
+    stream: true,
+  }),
+});
+
+const requestBody = (question: string, system?: string): unknown =>
+  JSON.parse(requestInit(question, system).body);
+
+describe("resolveFixtureSettings", () => {
+  it("should be undefined when no mode is set", () => {
+    expect(resolveFixtureSettings({}, "/work")).toBeUndefined();
+  });
+
+  it("should resolve the fixture directory against the working directory", () => {
+    expect(
+      resolveFixtureSettings(
+        { PERPLEXITY_FIXTURES_MODE: "replay", PERPLEXITY_FIXTURES_DIR: "test/fixtures" },
+        "/work",
+      ),
+    ).toEqual({ mode: "replay", directory: path.resolve("/work", "test/fixtures") });
+    expect(resolveFixtureSettings({ PERPLEXITY_FIXTURES_MODE: "record" }, "/work")).toEqual({
+      mode: "record",
+      directory: path.resolve("/work", "perplexity-fixtures"),
+    });
+  });
+
+  it("should reject unknown modes", () => {
+    expect(() => resolveFixtureSettings({ PERPLEXITY_FIXTURES_MODE: "rewind" })).toThrow(
+      ConfigError,
+    );
+  });
+});
+
+describe("fixtureKey", () => {
+  it("should ignore the system prompt", () => {
+    expect(fixtureKey(ENDPOINT, requestBody("What is zod?", "Prompt A"))).toBe(
+      fixtureKey(ENDPOINT, requestBody("What is zod?", "Prompt B")),
+    );
+  });
+
+  it("should differ for different questions", () => {
+    expect(fixtureKey(ENDPOINT, requestBody("What is zod?"))).not.toBe(
+      fixtureKey(ENDPOINT, requestBody("What is vite?")),
+    );
+  });
+});
+
+describe("createFixtureFetch", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "perplexity-fixtures-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should record responses with secrets scrubbed", async () => {
+    const upstream = vi.fn<FetchFunction>(
+      async () =>
+        new Response(`data: {"echo":"${API_KEY}","token":"Bearer abc.def"}\n\n`, {
+          status: 200,
+          headers: { "content-type": "text/event-stream", "set-cookie": "session=secret" },
+        }),
+    );
+    const record = createFixtureFetch({ mode: "record", directory }, [API_KEY], upstream);
+
+    const response = await record(ENDPOINT, requestInit(`Is ${API_KEY} valid?`));
+
+    expect(upstream).toHaveBeenCalledOnce();
+    expect(await response.text()).toContain(API_KEY);
+    const [file] = await readdir(directory);
+    const raw = await readFile(path.join(directory, file ?? ""), "utf8");
+    expect(raw).not.toContain(API_KEY);
+    expect(raw).not.toContain("abc.def");
+    expect(raw).not.toContain("Authorization");
+    expect(raw).not.toContain("session=secret");
+    expect(raw).toContain("[REDACTED]");
+    expect(JSON.parse(raw)).toMatchObject({
+      response: { headers: { "content-type": "text/event-stream" } },
+    });
+    expect(raw).not.toContain("set-cookie");
+  });
+
+  it("should replay recorded responses without calling upstream", async () => {
+    const upstream = vi.fn<FetchFunction>(
+      async () =>
+        new Response("Too many requests", { status: 429, headers: { "retry-after": "3" } }),
+    );
+    await createFixtureFetch(
+      { mode: "record", directory },
+      [API_KEY],
+      upstream,
+    )(ENDPOINT, requestInit("What is zod?"));
+
+    const replay = createFixtureFetch({ mode: "replay", directory }, [], upstream);
+    const response = await replay(ENDPOINT, requestInit("What is zod?", "Edited prompt"));
+
+    expect(upstream).toHaveBeenCalledOnce();
+    expect(response.status).toBe(429);
+    expect(response.headers.get("retry-after")).toBe("3");
+    expect(await response.text()).toBe("Too many requests");
+  });
+
+  it("should throw a FixtureError when no fixture matches", async () => {
+    const upstream = vi.fn<FetchFunction>();
+    const replay = createFixtureFetch({ mode: "replay", directory }, [], upstream);
+
+    await expect(replay(ENDPOINT, requestInit("What is zod?"))).rejects.toThrow(FixtureError);
+    expect(upstream).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { ConfigError, FixtureError } from "./errors.js";
+import { scrubSecrets } from "./secrets.js";
+
+const DEFAULT_DIRECTORY = "perplexity-fixtures";
+
+/** Response headers kept in fixtures; the others may carry cookies or account details */
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+
+/**
+ * Whether API requests are saved to fixture files or served from them
+ */
+export interface FixtureSettings {
+  mode: "record" | "replay";
+  /** Directory holding one JSON fixture per request */
+  directory: string;
+}
+
+/**
+ * The fetch signature the API client needs; the global fetch satisfies it
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Schema for a recorded request/response pair
+ */
+const Fixture = z.object({
+  request: z.object({ url: z.string(), body: z.unknown() }),
+  response: z.object({
+    status: z.number().int(),
+    statusText: z.string(),
+    headers: z.record(z.string(), z.string()),
+    body: z.string(),
+  }),
+});
+type Fixture = z.infer<typeof Fixture>;
+
+const ChatRequestBody = z.looseObject({
+  messages: z.array(z.looseObject({ role: z.string() })),
+});
+
+/**
+ * Reads record/replay settings from PERPLEXITY_FIXTURES_MODE and
+ * PERPLEXITY_FIXTURES_DIR (default: ./perplexity-fixtures).
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment to read the settings from
+ * @param {string} cwd - Directory relative fixture directories are resolved against
+ * @returns {FixtureSettings | undefined} The settings, or undefined when requests go to the API
+ * @throws {ConfigError} If the mode is neither "record" nor "replay"
+ */
+export function resolveFixtureSettings(
+  env = process.env,
+  cwd = process.cwd(),
+): FixtureSettings | undefined {
+  const mode = env.PERPLEXITY_FIXTURES_MODE?.trim();
+  if (!mode) {
+    return undefined;
+  }
+  if (mode !== "record" && mode !== "replay") {
+    throw new ConfigError(`PERPLEXITY_FIXTURES_MODE must be "record" or "replay", got "${mode}"`);
+  }
+  return { mode, directory: path.resolve(cwd, env.PERPLEXITY_FIXTURES_DIR || DEFAULT_DIRECTORY) };
+}
+
+/**
+ * Derives the fixture file name for a request. The system prompt is left out
+ * so that prompt edits do not invalidate every recorded fixture.
+ *
+ * @param {string} url - The endpoint URL
+ * @param {unknown} body - The parsed JSON request body
+ * @returns {string} A 16-character hex key
+ */
+export function fixtureKey(url: string, body: unknown): string {
+  const parsed = ChatRequestBody.safeParse(body);
+  const matched = parsed.success
+    ? {
+        ...parsed.data,
+        messages: parsed.data.messages.filter((message) => message.role !== "system"),
+      }
+    : body;
+  return createHash("sha256")
+    .update(JSON.stringify({ url, body: matched }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Parses a string request body, leaving anything else as is.
+ */
+function parseRequestBody(body: RequestInit["body"]): unknown {
+  if (typeof body !== "string") {
+    return body ?? undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+const toResponse = ({ response }: Fixture) =>
+  new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+
+/**
+ * Wraps fetch to record API traffic to fixture files or replay it from them.
+ *
+ * In record mode every request is sent upstream and the pair is saved as
+ * <key>.json, including error responses. Request headers are never saved,
+ * response headers are limited to content-type and retry-after, and the
+ * given secrets plus anything shaped like an API key are replaced with
+ * "[REDACTED]". In replay mode nothing leaves the machine: the matching
+ * fixture is served, or a FixtureError explains which file is missing.
+ *
+ * @param {FixtureSettings} settings - Mode and fixture directory
+ * @param {string[]} secrets - Values to scrub from recorded fixtures, e.g. the API key
+ * @param {FetchFunction} baseFetch - The fetch used in record mode
+ * @returns {FetchFunction} The wrapped fetch
+ */
+export function createFixtureFetch(
+  settings: FixtureSettings,
+  secrets: string[],
+  baseFetch: FetchFunction = fetch,
+): FetchFunction {
+  return async (url, init) => {
+    const body = parseRequestBody(init.body);
+    const filePath = path.join(settings.directory, `${fixtureKey(url, body)}.json`);
+
+    if (settings.mode === "replay") {
+      init.signal?.throwIfAborted();
+      let raw;
+      try {
+        raw = await readFile(filePath, "utf8");
+      } catch (error) {
+        throw new FixtureError(
+          `No recorded fixture for this request: ${filePath}. Record it with PERPLEXITY_FIXTURES_MODE=record.`,
+          { cause: error },
+        );
+      }
+      const parsed = Fixture.safeParse(parseRequestBody(raw));
+      if (!parsed.success) {
+        throw new FixtureError(`Invalid fixture ${filePath}: ${z.prettifyError(parsed.error)}`);
+      }
+      return toResponse(parsed.data);
+    }
+
+    const response = await baseFetch(url, init);
+    const fixture: Fixture = {
+      request: { url, body },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(
+          RECORDED_HEADERS.flatMap((name) => {
+            const value = response.headers.get(name);
+            return value === null ? [] : [[name, value]];
+          }),
+        ),
+        body: await response.text(),
+      },
+    };
+    try {
+      await mkdir(settings.directory, { recursive: true });
+      // Write to a temporary file first so replays never see a partial fixture
+      const temporaryPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(
+        temporaryPath,
+        `${scrubSecrets(JSON.stringify(fixture, undefined, 2), secrets)}\n`,
+      );
+      await rename(temporaryPath, filePath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new FixtureError(`Failed to record fixture ${filePath}: ${message}`, { cause: error });
+    }
+    return toResponse(fixture);
+  };
+}
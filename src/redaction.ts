@@ -0,0 +1,215 @@
+import { InvalidRequestError } from "./errors.js";
+import type { ChatMessage, Redaction } from "./schemas.js";
+
+/**
+ * What happens to sensitive data found in outbound messages
+ */
+export type RedactionMode = "mask" | "strict" | "off";
+
+/**
+ * A user-defined pattern, reported under its name
+ */
+export interface CustomPattern {
+  name: string;
+  /** Must have the global flag */
+  pattern: RegExp;
+}
+
+/**
+ * Settings for outbound redaction
+ */
+export interface RedactionSettings {
+  /** mask replaces findings, strict blocks the call, off sends messages unchanged */
+  mode: RedactionMode;
+  /** Checked before the built-in detectors */
+  customPatterns: CustomPattern[];
+}
+
+/**
+ * Masked messages and what was masked in them
+ */
+export interface RedactedMessages {
+  messages: ChatMessage[];
+  /** One entry per type found, with how often it occurred; empty when nothing was found */
+  redactions: Redaction[];
+}
+
+interface Detector {
+  type: string;
+  pattern: RegExp;
+  /** Filters matches the pattern alone cannot rule out */
+  accept?: (match: string) => boolean;
+  /** Defaults to [REDACTED:<type>] */
+  replacement?: string;
+}
+
+/**
+ * Shannon entropy in bits per character.
+ */
+function entropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const character of text) {
+    counts.set(character, (counts.get(character) ?? 0) + 1);
+  }
+  let bits = 0;
+  for (const count of counts.values()) {
+    const probability = count / text.length;
+    bits -= probability * Math.log2(probability);
+  }
+  return bits;
+}
+
+const characterClass = (character: string) => {
+  if (/[A-Z]/u.test(character)) {
+    return "upper";
+  }
+  return /[a-z]/u.test(character) ? "lower" : "digit";
+};
+
+/**
+ * Tells random-looking tokens from long identifiers such as
+ * "useQueryClientV5Migration2024": both can have high entropy, but the
+ * character class (upper, lower, digit) of a random token changes at about
+ * half of its positions, while an identifier's changes only between words.
+ */
+function looksRandom(candidate: string): boolean {
+  if (!/[A-Z]/u.test(candidate) || !/[a-z]/u.test(candidate) || !/\d/u.test(candidate)) {
+    return false;
+  }
+  if (entropy(candidate) < 3.8) {
+    return false;
+  }
+  let pairs = 0;
+  let switches = 0;
+  for (const segment of candidate.split(/[^A-Za-z\d]+/u)) {
+    for (let index = 1; index < segment.length; index++) {
+      pairs += 1;
+      if (characterClass(segment[index]!) !== characterClass(segment[index - 1]!)) {
+        switches += 1;
+      }
+    }
+  }
+  return pairs > 0 && switches / pairs >= 0.45;
+}
+
+/**
+ * Built-in detectors, most specific first so that a token is reported under
+ * its most precise type
+ */
+const DETECTORS: Detector[] = [
+  {
+    type: "private-key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/gu,
+  },
+  { type: "aws-access-key", pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z\d]{16}\b/gu },
+  {
+    type: "aws-secret-key",
+    pattern:
+      /(?<=aws_?secret_?access_?key["']?\s*[:=]\s*["']?)[A-Za-z\d/+=]{40}(?![A-Za-z\d/+=])/giu,
+  },
+  {
+    type: "github-token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z\d]{36,255}|github_pat_\w{22,255})\b/gu,
+  },
+  { type: "jwt", pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{10,}/gu },
+  {
+    type: "api-key",
+    pattern:
+      /\b(?:pplx-[\w-]{8,}|sk-(?:proj-|ant-)?[\w-]{20,}|xox[abprs]-[\w-]{10,})|(?<=\bBearer\s+)(?!\[REDACTED)[\w.~+/-]{8,}=*/gu,
+  },
+  {
+    // KEY=value lines from .env files and shell exports; values already
+    // masked by a more specific detector are skipped
+    type: "secret-assignment",
+    pattern:
+      /(?<=\b[A-Z\d_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIALS?)[A-Z\d_]*\s*[:=]\s*["']?)(?!\[REDACTED)[^\s"']{4,}/gu,
+  },
+  {
+    type: "high-entropy-string",
+    pattern: /(?<![\w+/=-])[\w+/=-]{24,}(?![\w+/=-])/gu,
+    accept: looksRandom,
+  },
+  { type: "email", pattern: /\b[\w.%+-]+@[A-Za-z\d-]+(?:\.[A-Za-z\d-]+)*\.[A-Za-z]{2,}\b/gu },
+  {
+    type: "private-ip",
+    pattern:
+      /(?<![\d.])(?:10(?:\.\d{1,3}){3}|172\.(?:1[6-9]|2\d|3[01])(?:\.\d{1,3}){2}|192\.168(?:\.\d{1,3}){2})(?![\d.]*\d)/gu,
+  },
+  {
+    // Keeps the rest of the path, which is usually what the question is about
+    type: "home-path",
+    pattern:
+      /(?<![\w.~-]|[\w.-]\/)(?:\/(?:home|Users)\/[^\s/\\:'"`]+|\/root(?=\/)|[A-Za-z]:\\Users\\[^\s\\:'"`]+)/gu,
+    replacement: "~",
+  },
+];
+
+/**
+ * Masks sensitive data in one text.
+ */
+function redactText(text: string, detectors: Detector[], counts: Map<string, number>): string {
+  let redacted = text;
+  for (const detector of detectors) {
+    redacted = redacted.replaceAll(detector.pattern, (match) => {
+      if (detector.accept && !detector.accept(match)) {
+        return match;
+      }
+      counts.set(detector.type, (counts.get(detector.type) ?? 0) + 1);
+      return detector.replacement ?? `[REDACTED:${detector.type}]`;
+    });
+  }
+  return redacted;
+}
+
+/**
+ * Formats redactions as "type (count)" items, e.g. "email (2), jwt (1)".
+ *
+ * @param {Redaction[]} redactions - The redactions to list
+ * @returns {string} A comma-separated list
+ */
+export function formatRedactions(redactions: Redaction[]): string {
+  return redactions.map(({ type, count }) => `${type} (${count})`).join(", ");
+}
+
+/**
+ * Finds API keys and tokens (AWS, GitHub, JWTs, bearer tokens, KEY=value
+ * assignments and other random-looking strings), email addresses, private
+ * IPv4 addresses, home directory paths and custom patterns in the non-system
+ * messages of a request. System prompts come from the configuration and are
+ * sent unchanged.
+ *
+ * In mask mode, each finding is replaced with [REDACTED:<type>] and home
+ * directories with ~. In strict mode, nothing is sent: any finding throws.
+ *
+ * @param {ChatMessage[]} messages - The messages about to be sent
+ * @param {RedactionSettings} settings - Mode and custom patterns
+ * @returns {RedactedMessages} The messages to send and what was masked
+ * @throws {InvalidRequestError} In strict mode, if anything was found
+ */
+export function redactMessages(
+  messages: ChatMessage[],
+  settings: RedactionSettings,
+): RedactedMessages {
+  if (settings.mode === "off") {
+    return { messages, redactions: [] };
+  }
+
+  const detectors: Detector[] = [
+    ...settings.customPatterns.map(({ name, pattern }) => ({ type: name, pattern })),
+    ...DETECTORS,
+  ];
+  const counts = new Map<string, number>();
+  const redacted = messages.map((message) =>
+    message.role === "system"
+      ? message
+      : { ...message, content: redactText(message.content, detectors, counts) },
+  );
+  const redactions = [...counts].map(([type, count]) => ({ type, count }));
+
+  if (settings.mode === "strict" && redactions.length > 0) {
+    throw new InvalidRequestError(
+      `Blocked: the question contains sensitive data: ${formatRedactions(redactions)}. Remove it and try again, or set redaction.mode to "mask" to send it masked.`,
+    );
+  }
+  return { messages: redacted, redactions };
+}
@@ -0,0 +1,191 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createResearchJobs, defaultJobsDirectory, type JobRunner } from "./research-jobs.ts";
+
+const input = {
+  question: "Assess migrating from webpack to Vite",
+  model: "sonar-deep-research",
+  searchFilters: {},
+};
+
+const completion = {
+  content: "Migrate incrementally [1].",
+  sources: [{ index: 1, title: "Vite", url: "https://vite.dev" }],
+};
+
+let directory: string;
+let time: number;
+const now = () => time;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "perplexity-jobs-"));
+  time = Date.parse("2025-01-01T12:00:00Z");
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+/** A runner that reports progress and then waits until released or aborted */
+function createControlledRunner() {
+  let finish: (() => void) | undefined;
+  const runner = vi.fn<JobRunner>(
+    (_job, { signal, onProgress }) =>
+      new Promise((resolve, reject) => {
+        onProgress("Migrate ");
+        finish = () => resolve(completion);
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+      }),
+  );
+  return { runner, finish: () => finish?.() };
+}
+
+describe("createResearchJobs", () => {
+  it("should run a job in the background and save its result", async () => {
+    const { runner, finish } = createControlledRunner();
+    const jobs = createResearchJobs(directory, runner, now);
+
+    const started = await jobs.start(input);
+    expect(started).toMatchObject({ status: "queued", restarts: 0, ...input });
+    expect(started.id).toMatch(/^job-[\da-f]{12}$/u);
+
+    await vi.waitFor(async () => {
+      expect(await jobs.get(started.id)).toMatchObject({
+        status: "running",
+        receivedCharacters: 8,
+      });
+    });
+
+    finish();
+    await vi.waitFor(async () => {
+      expect(await jobs.get(started.id)).toMatchObject({
+        status: "completed",
+        finishedAt: "2025-01-01T12:00:00.000Z",
+        result: { answer: completion.content, sources: completion.sources },
+      });
+    });
+  });
+
+  it("should record the error when the runner fails", async () => {
+    const runner = vi.fn<JobRunner>().mockRejectedValue(new TypeError("fetch failed"));
+    const jobs = createResearchJobs(directory, runner, now);
+
+    const { id } = await jobs.start(input);
+    await vi.waitFor(async () => {
+      expect(await jobs.get(id)).toMatchObject({
+        status: "failed",
+        error: "TypeError: fetch failed",
+      });
+    });
+  });
+
+  it("should abort a running job on cancel and keep it cancelled", async () => {
+    const { runner } = createControlledRunner();
+    const jobs = createResearchJobs(directory, runner, now);
+    const { id } = await jobs.start(input);
+    await vi.waitFor(() => {
+      expect(runner).toHaveBeenCalled();
+    });
+
+    const cancelled = await jobs.cancel(id);
+    expect(cancelled).toMatchObject({ status: "cancelled", receivedCharacters: 8 });
+    expect(runner.mock.calls[0]![1].signal.aborted).toBe(true);
+
+    // The aborted runner's rejection must not overwrite the cancellation
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await jobs.get(id)).toMatchObject({ status: "cancelled" });
+    expect(await jobs.cancel(id)).toMatchObject({ status: "cancelled" });
+  });
+
+  it("should keep a job cancelled when cancel lands while it starts", async () => {
+    const { runner } = createControlledRunner();
+    const jobs = createResearchJobs(directory, runner, now);
+
+    const { id } = await jobs.start(input);
+    await jobs.cancel(id);
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await jobs.get(id)).toMatchObject({ status: "cancelled" });
+    expect(runner).not.toHaveBeenCalled();
+    expect(await readdir(directory)).toEqual([`${id}.json`]);
+  });
+
+  it("should leave jobs alone while their owner keeps its heartbeat", async () => {
+    const other = createControlledRunner();
+    const { id } = await createResearchJobs(directory, other.runner, now).start(input);
+    await vi.waitFor(async () => {
+      expect(other.runner).toHaveBeenCalled();
+    });
+
+    // A second server process sharing the directory
+    const runner = vi.fn<JobRunner>().mockResolvedValue(completion);
+    const jobs = createResearchJobs(directory, runner, now);
+
+    expect(await jobs.resumeInterrupted()).toEqual([]);
+    expect(runner).not.toHaveBeenCalled();
+    expect(await jobs.get(id)).toMatchObject({
+      status: "running",
+      owner: { pid: process.pid, heartbeatAt: "2025-01-01T12:00:00.000Z" },
+    });
+  });
+
+  it("should restart jobs whose owner stopped sending heartbeats", async () => {
+    const previous = createControlledRunner();
+    const { id } = await createResearchJobs(directory, previous.runner, now).start(input);
+    await vi.waitFor(() => {
+      expect(previous.runner).toHaveBeenCalled();
+    });
+
+    // A new manager over the same directory once the previous lease ran out
+    time += 2 * 60 * 1000 + 1;
+    const runner = vi.fn<JobRunner>().mockResolvedValue(completion);
+    const jobs = createResearchJobs(directory, runner, now);
+    const resumed = await jobs.resumeInterrupted();
+
+    expect(resumed.map((job) => job.id)).toEqual([id]);
+    await vi.waitFor(async () => {
+      expect(await jobs.get(id)).toMatchObject({ status: "completed", restarts: 1 });
+    });
+    expect(await jobs.resumeInterrupted()).toEqual([]);
+  });
+
+  it("should delete finished jobs older than 7 days when a job starts", async () => {
+    const runner = vi.fn<JobRunner>().mockResolvedValue(completion);
+    const jobs = createResearchJobs(directory, runner, now);
+    const { id } = await jobs.start(input);
+    await vi.waitFor(async () => {
+      expect(await jobs.get(id)).toMatchObject({ status: "completed" });
+    });
+
+    time += 7 * 24 * 60 * 60 * 1000 + 1;
+    const { id: newId } = await jobs.start(input);
+    await vi.waitFor(async () => {
+      expect(await jobs.get(newId)).toMatchObject({ status: "completed" });
+    });
+    expect(await jobs.get(id)).toBeUndefined();
+    expect(await readdir(directory)).toEqual([`${newId}.json`]);
+  });
+
+  it("should return undefined for unknown and invalid IDs", async () => {
+    const jobs = createResearchJobs(directory, vi.fn<JobRunner>(), now);
+    await writeFile(path.join(directory, "config.json"), "{}");
+
+    expect(await jobs.get("job-000000000000")).toBeUndefined();
+    expect(await jobs.get("../config")).toBeUndefined();
+    expect(await jobs.cancel("config")).toBeUndefined();
+    expect(await readFile(path.join(directory, "config.json"), "utf8")).toBe("{}");
+  });
+});
+
+describe("defaultJobsDirectory", () => {
+  it("should prefer PERPLEXITY_JOBS_DIR, then XDG_STATE_HOME", () => {
+    expect(
+      defaultJobsDirectory({ PERPLEXITY_JOBS_DIR: "/tmp/jobs", XDG_STATE_HOME: "/state" }),
+    ).toBe("/tmp/jobs");
+    expect(defaultJobsDirectory({ XDG_STATE_HOME: "/state" })).toBe(
+      path.join("/state", "perplexity-agent-mcp", "jobs"),
+    );
+  });
+});
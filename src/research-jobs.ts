@@ -0,0 +1,342 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { type ChatCompletionResult, Redaction, SearchFilters, Source } from "./schemas.js";
+
+/** Finished jobs older than this are deleted whenever a job is started */
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** How often a running job's owner refreshes its heartbeat */
+const HEARTBEAT_MS = 30 * 1000;
+
+/** A job whose heartbeat is older than this has lost its owner */
+const LEASE_MS = 2 * 60 * 1000;
+
+const ID_PATTERN = /^job-[\da-f]{12}$/u;
+
+const JobStatus = z.enum(["queued", "running", "completed", "failed", "cancelled"]);
+export type JobStatus = z.infer<typeof JobStatus>;
+
+/**
+ * Schema for a persisted research job
+ */
+const ResearchJob = z.object({
+  id: z.string(),
+  status: JobStatus,
+  question: z.string(),
+  model: z.string(),
+  searchFilters: SearchFilters,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  /** Characters of answer text received so far */
+  receivedCharacters: z.number().int(),
+  /** Times the job was restarted after the server stopped while it ran */
+  restarts: z.number().int(),
+  /** The server process running the job; absent once it has finished */
+  owner: z.object({ pid: z.number().int(), heartbeatAt: z.string() }).optional(),
+  result: z
+    .object({
+      answer: z.string(),
+      sources: z.array(Source),
+      danglingCitations: z.array(z.number()).optional(),
+      redactions: z.array(Redaction).optional(),
+    })
+    .optional(),
+  error: z.string().optional(),
+});
+export type ResearchJob = z.infer<typeof ResearchJob>;
+
+/**
+ * Runs the research for a job. onProgress receives visible answer text as it streams in.
+ */
+export type JobRunner = (
+  job: ResearchJob,
+  context: { signal: AbortSignal; onProgress: (text: string) => void },
+) => Promise<ChatCompletionResult>;
+
+/**
+ * Background research jobs that survive server restarts
+ */
+export interface ResearchJobs {
+  /** Saves a new job and starts it in the background */
+  start(input: Pick<ResearchJob, "question" | "model" | "searchFilters">): Promise<ResearchJob>;
+  /** The job with live progress, or undefined for unknown IDs */
+  get(id: string): Promise<ResearchJob | undefined>;
+  /** Stops a queued or running job; finished jobs are returned unchanged */
+  cancel(id: string): Promise<ResearchJob | undefined>;
+  /** Restarts unfinished jobs whose owning server process is gone */
+  resumeInterrupted(): Promise<ResearchJob[]>;
+}
+
+const isFinished = (status: JobStatus) =>
+  status === "completed" || status === "failed" || status === "cancelled";
+
+/**
+ * Creates the job manager. Each job is one JSON file in the directory,
+ * rewritten on every status change, so status and results can be read after a
+ * restart. Jobs that were interrupted by a restart start over from scratch
+ * when resumeInterrupted() is called.
+ *
+ * Several server processes can share the directory, so each unfinished job
+ * records its owner's pid and a heartbeat refreshed every 30 seconds. Only jobs
+ * whose owner has exited or missed its heartbeat for two minutes are resumed.
+ * The heartbeat also notices a cancel from another process and aborts the run.
+ *
+ * @param {string} directory - Directory for job files (created on first write)
+ * @param {JobRunner} run - Performs the research for a job
+ * @param {() => number} now - Clock, injectable for tests
+ * @returns {ResearchJobs} The job manager
+ */
+export function createResearchJobs(
+  directory: string,
+  run: JobRunner,
+  now: () => number = Date.now,
+): ResearchJobs {
+  const running = new Map<string, { controller: AbortController; receivedCharacters: number }>();
+  const writes = new Map<string, Promise<void>>();
+  const jobPath = (id: string) => path.join(directory, `${id}.json`);
+  const timestamp = () => new Date(now()).toISOString();
+  const owner = () => ({ pid: process.pid, heartbeatAt: timestamp() });
+
+  const isOwnerAlive = (jobOwner: ResearchJob["owner"]) => {
+    if (!jobOwner || now() - Date.parse(jobOwner.heartbeatAt) > LEASE_MS) {
+      return false;
+    }
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(jobOwner.pid, 0);
+      return true;
+    } catch (error) {
+      return error instanceof Error && "code" in error && error.code === "EPERM";
+    }
+  };
+
+  const read = async (id: string) => {
+    if (!ID_PATTERN.test(id)) {
+      return undefined;
+    }
+    try {
+      return ResearchJob.parse(JSON.parse(await readFile(jobPath(id), "utf8")));
+    } catch {
+      return undefined;
+    }
+  };
+
+  const readAll = async () => {
+    let files;
+    try {
+      files = await readdir(directory);
+    } catch {
+      return [];
+    }
+    const jobs = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => read(file.slice(0, -".json".length))),
+    );
+    return jobs.filter((job) => job !== undefined);
+  };
+
+  const save = async (job: ResearchJob) => {
+    await mkdir(directory, { recursive: true });
+    // Write to a temporary file first so readers never see a partial job
+    const temporaryPath = `${jobPath(job.id)}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(job));
+    await rename(temporaryPath, jobPath(job.id));
+  };
+
+  // Writes to one job run one at a time, in call order, so the last call wins
+  const write = (job: ResearchJob) => {
+    const previous = writes.get(job.id) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(() => save(job));
+    writes.set(job.id, next);
+    const forget = () => {
+      if (writes.get(job.id) === next) {
+        writes.delete(job.id);
+      }
+    };
+    void next.then(forget, forget);
+    return next;
+  };
+
+  // Status updates after the job has started are best-effort
+  const update = async (job: ResearchJob) => {
+    try {
+      await write(job);
+    } catch {
+      // The job keeps running; its last saved status is what a restart sees
+    }
+  };
+
+  const prune = async () => {
+    const cutoff = now() - RETENTION_MS;
+    const jobs = await readAll();
+    await Promise.all(
+      jobs
+        .filter((job) => isFinished(job.status) && Date.parse(job.updatedAt) < cutoff)
+        .map((job) => rm(jobPath(job.id), { force: true })),
+    );
+  };
+
+  const execute = (job: ResearchJob) => {
+    const live = { controller: new AbortController(), receivedCharacters: 0 };
+    running.set(job.id, live);
+    // cancel() removes the job from running and saves it itself
+    const isCurrent = () => running.get(job.id) === live;
+
+    const started: ResearchJob = {
+      ...job,
+      status: "running",
+      startedAt: timestamp(),
+      updatedAt: timestamp(),
+      receivedCharacters: 0,
+      owner: owner(),
+    };
+
+    const beat = async () => {
+      const saved = await read(job.id);
+      if (!isCurrent()) {
+        return;
+      }
+      if (saved && isFinished(saved.status)) {
+        // Another server process cancelled the job
+        running.delete(job.id);
+        live.controller.abort(new Error("Research job cancelled"));
+        return;
+      }
+      await update({ ...started, receivedCharacters: live.receivedCharacters, owner: owner() });
+    };
+    const heartbeat = setInterval(() => void beat(), HEARTBEAT_MS);
+    heartbeat.unref();
+
+    void (async () => {
+      try {
+        if (isCurrent()) {
+          await update(started);
+        }
+        if (!isCurrent()) {
+          // Cancelled before it started
+          return;
+        }
+
+        let finished: ResearchJob;
+        try {
+          const result = await run(started, {
+            signal: live.controller.signal,
+            onProgress: (text) => {
+              live.receivedCharacters += text.length;
+            },
+          });
+          finished = {
+            ...started,
+            status: "completed",
+            result: {
+              answer: result.content,
+              sources: result.sources,
+              danglingCitations: result.danglingCitations,
+              redactions: result.redactions,
+            },
+          };
+        } catch (error) {
+          const message =
+            error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+          finished = { ...started, status: "failed", error: message };
+        }
+        if (!isCurrent()) {
+          return;
+        }
+        running.delete(job.id);
+        if ((await read(job.id))?.status === "cancelled") {
+          // Cancelled by another server process since the last heartbeat
+          return;
+        }
+        await update({
+          ...finished,
+          receivedCharacters: live.receivedCharacters,
+          finishedAt: timestamp(),
+          updatedAt: timestamp(),
+          owner: undefined,
+        });
+      } finally {
+        clearInterval(heartbeat);
+      }
+    })();
+  };
+
+  return {
+    async start(input) {
+      await prune().catch(() => {});
+      const job: ResearchJob = {
+        id: `job-${randomBytes(6).toString("hex")}`,
+        status: "queued",
+        ...input,
+        createdAt: timestamp(),
+        updatedAt: timestamp(),
+        receivedCharacters: 0,
+        restarts: 0,
+        owner: owner(),
+      };
+      // Fail the tool call if the job cannot be saved, since it could never be polled
+      await write(job);
+      execute(job);
+      return job;
+    },
+
+    async get(id) {
+      const job = await read(id);
+      const live = running.get(id);
+      return job && live ? { ...job, receivedCharacters: live.receivedCharacters } : job;
+    },
+
+    async cancel(id) {
+      const job = await read(id);
+      if (!job || isFinished(job.status)) {
+        return job;
+      }
+      const live = running.get(id);
+      running.delete(id);
+      // Abort first so the run stops even if saving the cancellation fails
+      live?.controller.abort(new Error("Research job cancelled"));
+      const cancelled: ResearchJob = {
+        ...job,
+        status: "cancelled",
+        receivedCharacters: live?.receivedCharacters ?? job.receivedCharacters,
+        finishedAt: timestamp(),
+        updatedAt: timestamp(),
+        owner: undefined,
+      };
+      await write(cancelled);
+      return cancelled;
+    },
+
+    async resumeInterrupted() {
+      const interrupted = (await readAll()).filter(
+        (job) => !isFinished(job.status) && !running.has(job.id) && !isOwnerAlive(job.owner),
+      );
+      for (const job of interrupted) {
+        execute({ ...job, status: "queued", restarts: job.restarts + 1 });
+      }
+      return interrupted;
+    },
+  };
+}
+
+/**
+ * Resolves the default jobs directory: PERPLEXITY_JOBS_DIR, then
+ * $XDG_STATE_HOME/perplexity-agent-mcp/jobs, then
+ * ~/.local/state/perplexity-agent-mcp/jobs.
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment to read the directory from
+ * @returns {string} The jobs directory
+ */
+export function defaultJobsDirectory(env = process.env): string {
+  if (env.PERPLEXITY_JOBS_DIR) {
+    return env.PERPLEXITY_JOBS_DIR;
+  }
+  const stateHome = env.XDG_STATE_HOME ?? path.join(homedir(), ".local", "state");
+  return path.join(stateHome, "perplexity-agent-mcp", "jobs");
+}
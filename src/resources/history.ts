@@ -0,0 +1,93 @@
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { HistorySummary } from "../history-store.js";
+import type { ToolContext } from "../tools/context.js";
+
+const HISTORY_URI = "perplexity://history";
+
+/**
+ * Renders a JSON resource body.
+ */
+const jsonContents = (uri: URL, value: unknown) => ({
+  contents: [
+    { uri: uri.href, mimeType: "application/json", text: JSON.stringify(value, undefined, 2) },
+  ],
+});
+
+/**
+ * Adds each entry's resource URI to a history listing.
+ */
+const withUris = (summaries: HistorySummary[]) =>
+  summaries.map((summary) => ({ ...summary, uri: `${HISTORY_URI}/${summary.id}` }));
+
+/**
+ * Registers the research history resources with the MCP server:
+ * - perplexity://history lists saved results, newest first
+ * - perplexity://history/search{?q} lists results matching all keywords in q
+ * - perplexity://history/{id} returns one result with its answer and sources
+ */
+export function registerHistoryResources(server: McpServer, { history }: ToolContext) {
+  server.registerResource(
+    "history",
+    HISTORY_URI,
+    {
+      title: "Research history",
+      description:
+        "Saved lookup and answer results (id, tool, model, query, time), newest first. Read perplexity://history/{id} for the full answer",
+      mimeType: "application/json",
+    },
+    async (uri) => jsonContents(uri, withUris(await history.list())),
+  );
+
+  // Registered before the item template so "search" is not read as an ID
+  server.registerResource(
+    "history-search",
+    new ResourceTemplate(`${HISTORY_URI}/search{?q}`, { list: undefined }),
+    {
+      title: "Search research history",
+      description:
+        "Saved results whose query or answer contains every keyword in q, e.g. perplexity://history/search?q=zod%20migration",
+      mimeType: "application/json",
+    },
+    async (uri, { q }) => {
+      const keywords = (Array.isArray(q) ? q.join(" ") : (q ?? "")).replaceAll("+", " ");
+      let decoded: string;
+      try {
+        decoded = decodeURIComponent(keywords);
+      } catch {
+        throw new McpError(ErrorCode.InvalidParams, `Malformed search query: ${uri.href}`);
+      }
+      return jsonContents(uri, withUris(await history.search(decoded)));
+    },
+  );
+
+  server.registerResource(
+    "history-entry",
+    new ResourceTemplate(`${HISTORY_URI}/{id}`, {
+      list: async () => ({
+        resources: (await history.list()).map((summary) => ({
+          uri: `${HISTORY_URI}/${summary.id}`,
+          name: summary.query,
+          description: `${summary.tool} (${summary.model}), ${summary.createdAt}`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        id: async (value) =>
+          (await history.list()).map((summary) => summary.id).filter((id) => id.startsWith(value)),
+      },
+    }),
+    {
+      title: "Research history entry",
+      description: "A saved lookup or answer result with its query, answer and sources",
+      mimeType: "application/json",
+    },
+    async (uri, { id }) => {
+      const entry = typeof id === "string" ? await history.get(id) : undefined;
+      if (!entry) {
+        throw new McpError(ErrorCode.InvalidParams, `History entry not found: ${uri.href}`);
+      }
+      return jsonContents(uri, entry);
+    },
+  );
+}
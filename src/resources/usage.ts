@@ -0,0 +1,29 @@
+import type { ToolContext } from "../tools/context.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * Registers the perplexity://usage resource with the MCP server.
+ * Reports token, search and estimated cost totals overall, for the current
+ * UTC day, per tool and per research session, along with configured budgets.
+ */
+export function registerUsageResource(server: McpServer, { usage }: ToolContext) {
+  server.registerResource(
+    "usage",
+    "perplexity://usage",
+    {
+      title: "Perplexity usage",
+      description:
+        "Tokens, search queries and estimated cost (USD) consumed by lookup and answer, per tool and per research session, with any configured budgets",
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(await usage.report(), undefined, 2),
+        },
+      ],
+    }),
+  );
+}
@@ -0,0 +1,130 @@
+import { mkdtemp, readdir, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  cachedChatCompletion,
+  createCacheKey,
+  createResponseCache,
+  defaultCacheDirectory,
+} from "./response-cache.ts";
+
+const options = { model: "sonar-pro", system: "prompt", searchContextSize: "medium" as const };
+const result = {
+  content: "The default is 300s [1].",
+  sources: [{ index: 1, title: "Node docs", url: "https://nodejs.org/api/http.html" }],
+};
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "perplexity-cache-"));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("createCacheKey", () => {
+  it("should normalize whitespace but keep case in the query", () => {
+    expect(createCacheKey(options, "  Default   timeout for\nfetch? ")).toBe(
+      createCacheKey(options, "Default timeout for fetch?"),
+    );
+    expect(createCacheKey(options, "What does Map do?")).not.toBe(
+      createCacheKey(options, "What does map do?"),
+    );
+  });
+
+  it("should differ by model, system prompt and search context size", () => {
+    const key = createCacheKey(options, "q");
+    expect(createCacheKey({ ...options, model: "sonar" }, "q")).not.toBe(key);
+    expect(createCacheKey({ ...options, system: "other" }, "q")).not.toBe(key);
+    expect(createCacheKey({ ...options, searchContextSize: "high" }, "q")).not.toBe(key);
+  });
+
+  it("should differ by redaction mode and custom patterns", () => {
+    const key = createCacheKey(
+      { ...options, redaction: { mode: "mask", customPatterns: [] } },
+      "q",
+    );
+    expect(
+      createCacheKey({ ...options, redaction: { mode: "strict", customPatterns: [] } }, "q"),
+    ).not.toBe(key);
+    expect(
+      createCacheKey(
+        {
+          ...options,
+          redaction: { mode: "mask", customPatterns: [{ name: "ticket", pattern: /T-\d+/gu }] },
+        },
+        "q",
+      ),
+    ).not.toBe(key);
+  });
+});
+
+describe("createResponseCache", () => {
+  it("should return stored results with their original timestamp", async () => {
+    const cache = createResponseCache(directory, 10);
+    await cache.set("a", result);
+
+    const cached = await cache.get("a", 60_000);
+    expect(cached).toMatchObject(result);
+    expect(cached?.cachedAt).toEqual(expect.any(String));
+  });
+
+  it("should treat expired and missing entries as misses", async () => {
+    const cache = createResponseCache(directory, 10);
+    await cache.set("a", result);
+
+    expect(await cache.get("a", -1)).toBeUndefined();
+    expect(await readdir(directory)).toEqual([]);
+    expect(await cache.get("missing", 60_000)).toBeUndefined();
+  });
+
+  it("should treat an expired entry as a miss when concurrent lookups remove it", async () => {
+    const cache = createResponseCache(directory, 10);
+    await cache.set("a", result);
+
+    expect(await Promise.all([cache.get("a", -1), cache.get("a", -1)])).toEqual([
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("should evict the least recently used entries beyond the size cap", async () => {
+    const cache = createResponseCache(directory, 2);
+    await cache.set("a", result);
+    await cache.set("b", result);
+    const past = new Date(Date.now() - 60_000);
+    await utimes(path.join(directory, "a.json"), past, past);
+    await utimes(path.join(directory, "b.json"), past, past);
+
+    // Reading "a" makes "b" the least recently used
+    await cache.get("a", 60_000);
+    await cache.set("c", result);
+
+    expect((await readdir(directory)).toSorted()).toEqual(["a.json", "c.json"]);
+  });
+});
+
+describe("cachedChatCompletion", () => {
+  it("should serve hits from the cache it is given", async () => {
+    const cache = createResponseCache(directory, 10);
+    await cache.set(createCacheKey(options, "q"), result);
+
+    const cached = await cachedChatCompletion("q", options, { cache, ttlMs: 60_000 });
+    expect(cached).toMatchObject(result);
+    expect(cached.cachedAt).toEqual(expect.any(String));
+  });
+});
+
+describe("defaultCacheDirectory", () => {
+  it("should prefer PERPLEXITY_CACHE_DIR, then XDG_CACHE_HOME", () => {
+    expect(
+      defaultCacheDirectory({ PERPLEXITY_CACHE_DIR: "/tmp/cache", XDG_CACHE_HOME: "/cache" }),
+    ).toBe("/tmp/cache");
+    expect(defaultCacheDirectory({ XDG_CACHE_HOME: "/cache" })).toBe(
+      path.join("/cache", "perplexity-agent-mcp"),
+    );
+  });
+});
@@ -0,0 +1,228 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { performChatCompletion } from "./perplexity-client.js";
+import { type ChatCompletionResult, type ChatOptions, Redaction, Source } from "./schemas.js";
+import type { SessionMessage } from "./session-store.js";
+
+/**
+ * Schema for a cache entry file
+ */
+const CacheEntry = z.object({
+  cachedAt: z.string(),
+  result: z.object({
+    content: z.string(),
+    sources: z.array(Source),
+    danglingCitations: z.array(z.number()).optional(),
+    redactions: z.array(Redaction).optional(),
+    reasoning: z.string().optional(),
+    relatedQuestions: z.array(z.string()).optional(),
+  }),
+});
+
+/**
+ * Size cap for the response cache
+ */
+export interface CacheLimits {
+  /** Entries kept before the least recently used are evicted */
+  maxEntries: number;
+}
+
+/**
+ * Per-call cache behavior
+ */
+export interface CacheOptions {
+  /** The cache to read and write, shared by all tools of a server */
+  cache: ResponseCache;
+  /** How long an entry stays valid; 0 disables caching for the call */
+  ttlMs: number;
+  /** Skip the cache lookup (the fresh result is still stored) */
+  fresh?: boolean;
+}
+
+/**
+ * A directory of cached completions, one JSON file per key.
+ * File modification times track last access for LRU eviction, so several
+ * server processes can share a cache directory safely.
+ */
+export interface ResponseCache {
+  get(key: string, ttlMs: number): Promise<ChatCompletionResult | undefined>;
+  set(key: string, result: ChatCompletionResult): Promise<void>;
+}
+
+/**
+ * Builds a cache key from everything that affects the completion: provider
+ * endpoint, model, system prompt, search context size, search filters,
+ * citation handling, authority rules, whether follow-ups were requested,
+ * redaction mode and custom patterns (so the redaction report matches the
+ * current settings) and the query. The query is trimmed and its whitespace
+ * collapsed; case is kept, since API names like `Map` and `map` differ.
+ *
+ * @param {ChatOptions} options - The chat options for the request
+ * @param {string} query - The user query
+ * @returns {string} A hex SHA-256 digest
+ */
+export function createCacheKey(options: ChatOptions, query: string): string {
+  const systemHash = createHash("sha256").update(options.system).digest("hex");
+  const normalizedQuery = query.trim().replaceAll(/\s+/gu, " ");
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        options.provider?.url,
+        options.model,
+        systemHash,
+        options.searchContextSize,
+        options.searchFilters ?? {},
+        options.citations ?? {},
+        options.authorityRules ?? [],
+        options.relatedQuestions ?? false,
+        options.redaction?.mode ?? "mask",
+        (options.redaction?.customPatterns ?? []).map(({ name, pattern }) => [
+          name,
+          pattern.source,
+          pattern.flags,
+        ]),
+        normalizedQuery,
+      ]),
+    )
+    .digest("hex");
+}
+
+/**
+ * Creates a response cache stored in the given directory.
+ * Cache failures never fail a tool call: unreadable entries are treated as
+ * misses and write errors are ignored.
+ *
+ * @param {string} directory - Directory holding cache entry files
+ * @param {number} maxEntries - Number of entries kept before evicting the least recently used
+ * @returns {ResponseCache} The cache
+ */
+export function createResponseCache(directory: string, maxEntries: number): ResponseCache {
+  const entryPath = (key: string) => path.join(directory, `${key}.json`);
+
+  const evict = async () => {
+    const files = (await readdir(directory)).filter((file) => file.endsWith(".json"));
+    if (files.length <= maxEntries) {
+      return;
+    }
+    const entries = await Promise.all(
+      files.map(async (file) => {
+        const filePath = path.join(directory, file);
+        const { mtimeMs } = await stat(filePath);
+        return { filePath, mtimeMs };
+      }),
+    );
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    await Promise.all(
+      entries
+        .slice(0, entries.length - maxEntries)
+        .map(({ filePath }) => rm(filePath, { force: true })),
+    );
+  };
+
+  return {
+    async get(key, ttlMs) {
+      const filePath = entryPath(key);
+      let entry;
+      try {
+        entry = CacheEntry.parse(JSON.parse(await readFile(filePath, "utf8")));
+      } catch {
+        return undefined;
+      }
+
+      if (Date.now() - Date.parse(entry.cachedAt) > ttlMs) {
+        // Another lookup or eviction may have removed it already; either way it is a miss
+        await rm(filePath, { force: true }).catch(() => {});
+        return undefined;
+      }
+
+      // Mark as recently used for LRU eviction
+      const now = new Date();
+      await utimes(filePath, now, now).catch(() => {});
+      return { ...entry.result, cachedAt: entry.cachedAt };
+    },
+
+    async set(key, result) {
+      const entry = {
+        cachedAt: new Date().toISOString(),
+        result: {
+          content: result.content,
+          sources: result.sources,
+          danglingCitations: result.danglingCitations,
+          redactions: result.redactions,
+          reasoning: result.reasoning,
+          relatedQuestions: result.relatedQuestions,
+        },
+      };
+      try {
+        await mkdir(directory, { recursive: true });
+        // Write to a temporary file first so readers never see a partial entry
+        const temporaryPath = `${entryPath(key)}.${process.pid}.tmp`;
+        await writeFile(temporaryPath, JSON.stringify(entry));
+        await rename(temporaryPath, entryPath(key));
+        await evict();
+      } catch {
+        // Caching is best-effort
+      }
+    },
+  };
+}
+
+/**
+ * Resolves the default cache directory: PERPLEXITY_CACHE_DIR, then
+ * $XDG_CACHE_HOME/perplexity-agent-mcp, then ~/.cache/perplexity-agent-mcp.
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment to read the directory from
+ * @returns {string} The cache directory
+ */
+export function defaultCacheDirectory(env = process.env): string {
+  if (env.PERPLEXITY_CACHE_DIR) {
+    return env.PERPLEXITY_CACHE_DIR;
+  }
+  const cacheHome = env.XDG_CACHE_HOME ?? path.join(homedir(), ".cache");
+  return path.join(cacheHome, "perplexity-agent-mcp");
+}
+
+/**
+ * Performs a chat completion for a user query, serving it from the on-disk
+ * cache when a fresh-enough entry exists. Cached results carry the original
+ * retrieval time in cachedAt. Follow-up questions (with prior session turns
+ * in history) depend on that context, so they always bypass the cache.
+ *
+ * @param {string} query - The user query
+ * @param {ChatOptions} options - Options for the chat completion
+ * @param {CacheOptions} cacheOptions - Cache, TTL and bypass flag for this call
+ * @param {SessionMessage[]} history - Prior session turns sent before the query
+ * @returns {Promise<ChatCompletionResult>} The cached or newly fetched result
+ */
+export async function cachedChatCompletion(
+  query: string,
+  options: ChatOptions,
+  cacheOptions: CacheOptions,
+  history: SessionMessage[] = [],
+): Promise<ChatCompletionResult> {
+  const messages = [...history, { role: "user", content: query }];
+  if (cacheOptions.ttlMs === 0 || history.length > 0) {
+    return performChatCompletion(messages, options);
+  }
+
+  const { cache } = cacheOptions;
+  const key = createCacheKey(options, query);
+
+  if (!cacheOptions.fresh) {
+    const cached = await cache.get(key, cacheOptions.ttlMs);
+    if (cached) {
+      options.logger?.debug("Served from cache", {
+        model: options.model,
+        cachedAt: cached.cachedAt,
+      });
+      return cached;
+    }
+  }
+
+  const result = await performChatCompletion(messages, options);
+  await cache.set(key, result);
+  return result;
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest";
+import { AuthenticationError, RateLimitError, UpstreamError } from "./errors.ts";
+import { computeBackoffMs, parseRetryAfter, withRetry } from "./retry.ts";
+
+const policy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 50 };
+
+describe("parseRetryAfter", () => {
+  it("should parse delay-seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+  });
+
+  it("should parse an HTTP-date relative to now", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5000);
+  });
+
+  it("should ignore missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("computeBackoffMs", () => {
+  const options = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it("should apply full jitter below an exponential ceiling", () => {
+    expect(computeBackoffMs(0, options, undefined, () => 0.5)).toBe(50);
+    expect(computeBackoffMs(2, options, undefined, () => 0.5)).toBe(200);
+  });
+
+  it("should cap the ceiling at maxDelayMs", () => {
+    expect(computeBackoffMs(10, options, undefined, () => 0.999)).toBe(999);
+  });
+
+  it("should prefer the server's Retry-After delay", () => {
+    expect(computeBackoffMs(0, options, 700, () => 0)).toBe(700);
+  });
+});
+
+describe("withRetry", () => {
+  it("should retry rate limits and 5xx errors until success", async () => {
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new RateLimitError("slow down", 1))
+      .mockRejectedValueOnce(new UpstreamError("bad gateway", 502))
+      .mockResolvedValue("ok");
+
+    await expect(withRetry(operation, policy)).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry authentication or 4xx errors", async () => {
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new AuthenticationError("nope"));
+    await expect(withRetry(operation, policy)).rejects.toBeInstanceOf(AuthenticationError);
+
+    const badRequest = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new UpstreamError("bad", 400));
+    await expect(withRetry(badRequest, policy)).rejects.toBeInstanceOf(UpstreamError);
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(badRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up after maxRetries", async () => {
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new UpstreamError("down", 503));
+    await expect(withRetry(operation, policy)).rejects.toBeInstanceOf(UpstreamError);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it("should fail fast when Retry-After exceeds maxDelayMs", async () => {
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new RateLimitError("wait a minute", 60_000));
+    await expect(withRetry(operation, policy)).rejects.toBeInstanceOf(RateLimitError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop waiting when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const operation = vi.fn<() => Promise<string>>().mockImplementation(() => {
+      controller.abort();
+      return Promise.reject(new UpstreamError("down", 503));
+    });
+    await expect(
+      withRetry(operation, { ...policy, signal: controller.signal }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { RateLimitError, UpstreamError } from "./errors.js";
+
+/**
+ * Retry policy for Perplexity API requests
+ */
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Parses a Retry-After header (delay-seconds or HTTP-date) into milliseconds.
+ *
+ * @param {string | null} value - The raw header value
+ * @param {number} now - Current time in milliseconds, for HTTP-date values
+ * @returns {number | undefined} The delay in milliseconds, or undefined if absent/invalid
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (value === null || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Rate limits, 5xx responses and network failures (no status) are transient.
+ */
+function isRetryable(error: unknown): error is RateLimitError | UpstreamError {
+  return (
+    error instanceof RateLimitError ||
+    (error instanceof UpstreamError && (error.status === undefined || error.status >= 500))
+  );
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with full jitter.
+ * A server-provided Retry-After delay takes precedence over the computed backoff.
+ *
+ * @param {number} attempt - Zero-based index of the attempt that just failed
+ * @param {RetryOptions} options - The retry policy
+ * @param {number | undefined} retryAfterMs - Delay requested by the server, if any
+ * @param {() => number} random - Source of randomness in [0, 1)
+ * @returns {number} The delay in milliseconds
+ */
+export function computeBackoffMs(
+  attempt: number,
+  options: RetryOptions,
+  retryAfterMs: number | undefined,
+  random: () => number = Math.random,
+): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Runs an operation, retrying transient Perplexity failures with backoff.
+ * Gives up immediately when the server asks to wait longer than maxDelayMs,
+ * and stops waiting as soon as the signal is aborted.
+ *
+ * @param {() => Promise<T>} operation - The operation to run
+ * @param {RetryOptions} options - The retry policy
+ * @returns {Promise<T>} The result of the first successful attempt
+ * @throws The last error when it is not retryable or retries are exhausted
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= options.maxRetries) {
+        throw error;
+      }
+      const delayMs = computeBackoffMs(attempt, options, error.retryAfterMs);
+      if (delayMs > options.maxDelayMs) {
+        throw error;
+      }
+      await sleep(delayMs, undefined, { signal: options.signal });
+    }
+  }
+}
@@ -1,14 +1,49 @@
 import { z } from "zod";
+import type { CitationOptions } from "./citations.js";
+import type { Logger } from "./logging.js";
+import type { SearchProvider } from "./providers/provider.js";
+import type { RateLimiter, RequestPriority } from "./rate-limiter.js";
+import type { RedactionSettings } from "./redaction.js";
+import type { AuthorityRule } from "./source-authority.js";
 
 /**
  * Schema for parsing a single Perplexity search result
  */
-const SearchResult = z.object({
+export const SearchResult = z.object({
   title: z.string(),
   url: z.string(),
   date: z.string().optional(),
   last_updated: z.string().optional(),
 });
+export type SearchResult = z.infer<typeof SearchResult>;
+
+/**
+ * Schema for how authoritative a source is, from most to least trusted:
+ * repository source code, repository docs (READMEs, changelogs, releases),
+ * official documentation, then community content (Q&A sites and blogs)
+ */
+export const AuthorityTier = z.enum(["source-code", "repository", "official", "community"]);
+export type AuthorityTier = z.infer<typeof AuthorityTier>;
+
+/**
+ * Schema for a numbered source returned in structured tool output.
+ * The index matches the inline [n] citation markers in the answer text.
+ * Sources that match no authority rule have no tier.
+ */
+export const Source = SearchResult.extend({
+  index: z.number().int().positive(),
+  tier: AuthorityTier.optional(),
+});
+export type Source = z.infer<typeof Source>;
+
+/**
+ * Schema for one type of sensitive data masked in a question before it was sent
+ */
+export const Redaction = z.object({
+  type: z.string().describe('e.g. "aws-access-key", "email" or a custom pattern name'),
+  count: z.number().int().positive(),
+});
+export type Redaction = z.infer<typeof Redaction>;
 
 /**
  * Schema for parsing an array of Perplexity search results
@@ -16,7 +51,23 @@ const SearchResult = z.object({
 const SearchResults = z.array(SearchResult);
 
 /**
- * Minimal Perplexity response shape we rely on
+ * Schema for the token and search usage reported with a completion.
+ * Streaming responses carry it on the final chunk.
+ */
+export const Usage = z.object({
+  prompt_tokens: z.number().int().nonnegative(),
+  completion_tokens: z.number().int().nonnegative(),
+  total_tokens: z.number().int().nonnegative().optional(),
+  search_context_size: z.string().optional(),
+  num_search_queries: z.number().int().nonnegative().optional(),
+  /** Cost as billed by the API, when it reports one */
+  cost: z.object({ total_cost: z.number().nonnegative() }).optional(),
+});
+export type Usage = z.infer<typeof Usage>;
+
+/**
+ * Minimal Perplexity response shape we rely on.
+ * Streamed chunks share this shape, carrying incremental text in `delta`.
  */
 export const PerplexityResponse = z.object({
   choices: z
@@ -27,17 +78,145 @@ export const PerplexityResponse = z.object({
             content: z.string().optional(),
           })
           .optional(),
+        delta: z
+          .object({
+            content: z.string().optional(),
+          })
+          .optional(),
       }),
     )
     .optional(),
   search_results: SearchResults.optional(),
+  /** Present when the request set return_related_questions */
+  related_questions: z.array(z.string()).optional(),
+  usage: Usage.optional(),
+});
+export type PerplexityResponse = z.infer<typeof PerplexityResponse>;
+
+/**
+ * Schema for a workspace dependency with the version it resolves to
+ */
+export const InstalledDependency = z.object({
+  name: z.string(),
+  /** Exact version from the lockfile, or the declared range when it is not locked */
+  version: z.string(),
+  /** Lockfile the version was read from; absent for declared ranges */
+  lockfile: z.string().optional(),
+});
+export type InstalledDependency = z.infer<typeof InstalledDependency>;
+
+/**
+ * Schema for the dependency versions and Node engine assumed for a question
+ */
+export const DependencyContext = z.object({
+  dependencies: z.array(InstalledDependency),
+  nodeEngine: z.string().optional(),
 });
+export type DependencyContext = z.infer<typeof DependencyContext>;
+
+/**
+ * Schema for a bare domain used in search filters, e.g. "nodejs.org"
+ */
+export const SearchDomain = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(
+    /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/u,
+    "Must be a bare domain such as nodejs.org (no scheme, path or port)",
+  );
+
+/**
+ * Schema for a search recency window
+ */
+export const SearchRecency = z.enum(["hour", "day", "week", "month", "year"]);
+
+/**
+ * Schema for search filters shared by config defaults and tool inputs.
+ * Perplexity accepts at most 20 domains, and a recency window cannot be
+ * combined with an explicit date range.
+ */
+export const SearchFilters = z
+  .strictObject({
+    includeDomains: z.array(SearchDomain).optional(),
+    excludeDomains: z.array(SearchDomain).optional(),
+    recency: SearchRecency.optional(),
+    afterDate: z.iso.date().optional(),
+    beforeDate: z.iso.date().optional(),
+  })
+  .refine(
+    (filters) =>
+      (filters.includeDomains?.length ?? 0) + (filters.excludeDomains?.length ?? 0) <= 20,
+    { message: "At most 20 domains can be included or excluded in total" },
+  )
+  .refine((filters) => !filters.recency || (!filters.afterDate && !filters.beforeDate), {
+    message: "recency cannot be combined with afterDate or beforeDate",
+  })
+  .refine(
+    (filters) =>
+      !filters.afterDate || !filters.beforeDate || filters.afterDate <= filters.beforeDate,
+    { message: "afterDate must not be later than beforeDate", path: ["afterDate"] },
+  );
+export type SearchFilters = z.infer<typeof SearchFilters>;
+
+/**
+ * Result of a chat completion: think-stripped content plus numbered sources
+ */
+export interface ChatCompletionResult {
+  content: string;
+  sources: Source[];
+  /** ISO timestamp of the original retrieval, set when served from cache */
+  cachedAt?: string;
+  /** Citation numbers in the raw answer that referenced no source */
+  danglingCitations?: number[];
+  /** Usage reported by the API; absent for cached results */
+  usage?: Usage;
+  /** Sensitive data masked in the outgoing messages; absent when nothing was masked */
+  redactions?: Redaction[];
+  /** Text of the <think> blocks removed from the answer; absent for models that do not reason */
+  reasoning?: string;
+  /** Follow-up questions suggested by the provider; absent unless requested and returned */
+  relatedQuestions?: string[];
+}
+
+/**
+ * A message sent to the chat completions API
+ */
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
 
 /**
- * Chat options for Perplexity API requests
+ * Chat options for search provider requests
  */
 export interface ChatOptions {
+  /** Builds requests and parses responses; defaults to the Perplexity API */
+  provider?: SearchProvider;
   model: string;
   system: string;
   searchContextSize: "low" | "medium" | "high";
+  searchFilters?: SearchFilters;
+  /** Citation post-processing; defaults to flagging dangling markers and dropping uncited sources */
+  citations?: CitationOptions;
+  /** Outbound redaction; defaults to masking with the built-in detectors */
+  redaction?: RedactionSettings;
+  /** Authority rules checked before the built-in ones when rating sources */
+  authorityRules?: AuthorityRule[];
+  /** Ask for related questions to suggest as follow-ups (Perplexity provider only) */
+  relatedQuestions?: boolean;
+  /** Receives visible (think-stripped) text as it streams in */
+  onProgress?: (text: string) => void;
+  /** Aborts the upstream request, e.g. when the MCP request is cancelled */
+  signal?: AbortSignal;
+  /** Upper bound for the whole call, including retries and streaming */
+  timeoutMs?: number;
+  /** Retries for 429, 5xx and network failures; defaults to 2 */
+  maxRetries?: number;
+  /** Receives leveled log messages and full traces of the API call */
+  logger?: Logger;
+  /** Shared limiter; every attempt, including retries, waits for its own slot */
+  rateLimiter?: RateLimiter;
+  /** Queue priority in the rate limiter; defaults to normal */
+  priority?: RequestPriority;
 }
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { InvalidRequestError } from "./errors.ts";
+import { SearchFilters } from "./schemas.ts";
+import { resolveSearchFilters, toSearchFilterFields } from "./search-filters.ts";
+
+describe("SearchFilters", () => {
+  it("should normalize domains and reject URLs", () => {
+    expect(SearchFilters.parse({ includeDomains: [" GitHub.com "] })).toEqual({
+      includeDomains: ["github.com"],
+    });
+    expect(SearchFilters.safeParse({ includeDomains: ["https://nodejs.org/api"] }).success).toBe(
+      false,
+    );
+  });
+
+  it("should reject inverted date ranges and invalid dates", () => {
+    expect(
+      SearchFilters.safeParse({ afterDate: "2025-02-01", beforeDate: "2025-01-01" }).success,
+    ).toBe(false);
+    expect(SearchFilters.safeParse({ afterDate: "2025-02-30" }).success).toBe(false);
+  });
+
+  it("should reject more than 20 domains in total", () => {
+    const domains = Array.from({ length: 11 }, (_, index) => `site${index}.com`);
+    expect(
+      SearchFilters.safeParse({ includeDomains: domains, excludeDomains: domains }).success,
+    ).toBe(false);
+  });
+});
+
+describe("resolveSearchFilters", () => {
+  it("should let tool inputs override configured defaults field by field", () => {
+    expect(
+      resolveSearchFilters(
+        { includeDomains: ["github.com"], excludeDomains: ["medium.com"] },
+        { include_domains: ["nodejs.org"] },
+      ),
+    ).toEqual({ includeDomains: ["nodejs.org"], excludeDomains: ["medium.com"] });
+  });
+
+  it("should replace a configured recency with requested dates", () => {
+    expect(resolveSearchFilters({ recency: "month" }, { after_date: "2025-01-01" })).toEqual({
+      afterDate: "2025-01-01",
+    });
+  });
+
+  it("should reject conflicting inputs before the API call", () => {
+    expect(() => resolveSearchFilters({}, { recency: "week", before_date: "2025-01-01" })).toThrow(
+      InvalidRequestError,
+    );
+  });
+});
+
+describe("toSearchFilterFields", () => {
+  it("should map filters to Perplexity request fields", () => {
+    expect(
+      toSearchFilterFields({
+        includeDomains: ["github.com"],
+        excludeDomains: ["medium.com"],
+        afterDate: "2025-03-07",
+        beforeDate: "2025-12-31",
+      }),
+    ).toEqual({
+      search_domain_filter: ["github.com", "-medium.com"],
+      search_after_date_filter: "3/7/2025",
+      search_before_date_filter: "12/31/2025",
+    });
+    expect(toSearchFilterFields({ recency: "week" })).toEqual({ search_recency_filter: "week" });
+    expect(toSearchFilterFields({})).toEqual({});
+  });
+});
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { InvalidRequestError } from "./errors.js";
+import { SearchDomain, SearchFilters, SearchRecency } from "./schemas.js";
+
+/**
+ * Optional search filter inputs shared by the lookup and answer tools
+ */
+export const searchFilterInputShape = {
+  include_domains: z
+    .array(SearchDomain)
+    .optional()
+    .describe('Only search these domains, e.g. ["github.com", "nodejs.org"]'),
+  exclude_domains: z.array(SearchDomain).optional().describe("Never search these domains"),
+  recency: SearchRecency.optional().describe("Only use results published within this window"),
+  after_date: z.iso
+    .date()
+    .optional()
+    .describe("Only use results published on or after (YYYY-MM-DD)"),
+  before_date: z.iso
+    .date()
+    .optional()
+    .describe("Only use results published on or before (YYYY-MM-DD)"),
+};
+
+type SearchFilterInput = {
+  [Key in keyof typeof searchFilterInputShape]?: z.infer<(typeof searchFilterInputShape)[Key]>;
+};
+
+/**
+ * Merges two sets of filters; override fields replace base fields.
+ * A time window in override (recency or dates) replaces the base window as a
+ * whole, so a base recency never collides with override dates.
+ *
+ * @param {SearchFilters} base - The lower-precedence filters
+ * @param {SearchFilters} override - The higher-precedence filters
+ * @returns {SearchFilters} The merged (not yet validated) filters
+ */
+export function mergeSearchFilters(base: SearchFilters, override: SearchFilters): SearchFilters {
+  const hasOverrideWindow = Boolean(override.recency ?? override.afterDate ?? override.beforeDate);
+  const window = hasOverrideWindow ? override : base;
+  return Object.fromEntries(
+    Object.entries({
+      includeDomains: override.includeDomains ?? base.includeDomains,
+      excludeDomains: override.excludeDomains ?? base.excludeDomains,
+      recency: window.recency,
+      afterDate: window.afterDate,
+      beforeDate: window.beforeDate,
+    }).filter(([, value]) => value !== undefined),
+  );
+}
+
+/**
+ * Combines configured default filters with the filter inputs of a tool call.
+ *
+ * @param {SearchFilters} defaults - Filters from the configuration
+ * @param {SearchFilterInput} input - Filters from the tool call
+ * @returns {SearchFilters} The validated filters for the request
+ * @throws {InvalidRequestError} If the combined filters are invalid
+ */
+export function resolveSearchFilters(
+  defaults: SearchFilters,
+  input: SearchFilterInput,
+): SearchFilters {
+  const merged = mergeSearchFilters(defaults, {
+    includeDomains: input.include_domains,
+    excludeDomains: input.exclude_domains,
+    recency: input.recency,
+    afterDate: input.after_date,
+    beforeDate: input.before_date,
+  });
+
+  const parsed = SearchFilters.safeParse(merged);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => issue.message).join("; ");
+    throw new InvalidRequestError(`Invalid search filters: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Converts an ISO date (YYYY-MM-DD) to Perplexity's M/D/YYYY filter format.
+ */
+function toPerplexityDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Maps search filters to Perplexity chat completion request fields.
+ * Excluded domains are sent with a "-" prefix in the same domain filter list.
+ *
+ * @param {SearchFilters} filters - The validated filters
+ * @returns {Record<string, unknown>} Fields to merge into the request body
+ */
+export function toSearchFilterFields(filters: SearchFilters): Record<string, unknown> {
+  const domains = [
+    ...(filters.includeDomains ?? []),
+    ...(filters.excludeDomains ?? []).map((domain) => `-${domain}`),
+  ];
+  return {
+    ...(domains.length > 0 && { search_domain_filter: domains }),
+    ...(filters.recency && { search_recency_filter: filters.recency }),
+    ...(filters.afterDate && { search_after_date_filter: toPerplexityDate(filters.afterDate) }),
+    ...(filters.beforeDate && { search_before_date_filter: toPerplexityDate(filters.beforeDate) }),
+  };
+}
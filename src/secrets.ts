@@ -0,0 +1,23 @@
+const REDACTED = "[REDACTED]";
+
+/** Token shapes scrubbed even when they are not a known secret */
+const SECRET_PATTERNS = [/pplx-[\w-]{8,}/gu, /(?<=Bearer\s+)[\w.~+/-]+=*/gu];
+
+/**
+ * Replaces the given secrets, and anything shaped like a Perplexity API key or
+ * a bearer token, with "[REDACTED]".
+ *
+ * @param {string} text - Text about to be written to disk
+ * @param {string[]} secrets - Known secret values, e.g. the API key; empty values are ignored
+ * @returns {string} The scrubbed text
+ */
+export function scrubSecrets(text: string, secrets: string[]): string {
+  let scrubbed = text;
+  for (const secret of secrets.filter(Boolean)) {
+    scrubbed = scrubbed.replaceAll(secret, REDACTED);
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    scrubbed = scrubbed.replaceAll(pattern, REDACTED);
+  }
+  return scrubbed;
+}
@@ -0,0 +1,344 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ErrorCode,
+  type LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer, createSharedServices } from "./server.ts";
+import { createUsageTracker } from "./usage-tracker.ts";
+
+// Replays the recorded API traffic in test/fixtures; nothing reaches the network
+const FIXTURES_DIR = fileURLToPath(new URL("../test/fixtures", import.meta.url));
+
+let client: Client;
+let stateDirectory: string;
+const logs: LoggingMessageNotification["params"][] = [];
+
+beforeAll(async () => {
+  vi.stubEnv("PERPLEXITY_FIXTURES_MODE", "replay");
+  vi.stubEnv("PERPLEXITY_FIXTURES_DIR", FIXTURES_DIR);
+  stateDirectory = await mkdtemp(path.join(tmpdir(), "perplexity-e2e-state-"));
+  vi.stubEnv("PERPLEXITY_JOBS_DIR", path.join(stateDirectory, "jobs"));
+  vi.stubEnv("PERPLEXITY_USAGE_DIR", path.join(stateDirectory, "usage"));
+  vi.stubGlobal("fetch", vi.fn<typeof fetch>());
+
+  const server = createServer({
+    maxRetries: 0,
+    history: { maxEntries: 0 },
+    sourceAuthority: { retryLowAuthority: true },
+    tools: { lookup: { cacheTtlMs: 0 }, answer: { cacheTtlMs: 0 }, verify: { cacheTtlMs: 0 } },
+  });
+  client = new Client({ name: "e2e-test", version: "1.0.0" });
+  client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+    logs.push(notification.params);
+  });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+  await rm(stateDirectory, { recursive: true, force: true });
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+const textOf = (result: Awaited<ReturnType<Client["callTool"]>>) =>
+  (result.content as { type: string; text: string }[]).map((block) => block.text).join("\n");
+
+describe("MCP server end to end", () => {
+  it("should render numbered sources after a lookup answer", async () => {
+    const result = await client.callTool({
+      name: "lookup",
+      arguments: { query: "What is the default timeout for fetch() in Node.js?" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toBe(
+      `Node.js fetch() has no overall timeout by default [1]. The underlying undici headersTimeout and bodyTimeout default to 300 seconds [2].
+
+Sources:
+[1] Node.js fetch documentation — https://nodejs.org/api/globals.html#fetch (2025-01-10) [official docs]
+[2] undici Agent options — https://undici.nodejs.org/#/docs/api/Agent [official docs]
+`,
+    );
+    expect(result.structuredContent).toMatchObject({
+      sources: [
+        { index: 1, url: "https://nodejs.org/api/globals.html#fetch", tier: "official" },
+        { index: 2, url: "https://undici.nodejs.org/#/docs/api/Agent", tier: "official" },
+      ],
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should retry once without the community domains when every source is low-tier", async () => {
+    const result = await client.callTool({
+      name: "lookup",
+      arguments: { query: "How do I set the concurrency of the Node.js test runner?" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toContain(
+      "[1] Command-line API: --test-concurrency — https://nodejs.org/api/cli.html#--test-concurrency (2025-03-04) [official docs]",
+    );
+    expect(textOf(result)).toContain(
+      "Retried with stricter domain filter (excluded: stackoverflow.com, medium.com): found stronger sources",
+    );
+    expect(result.structuredContent).toMatchObject({
+      sources: [{ index: 1, tier: "official" }],
+      authorityRetry: { excludedDomains: ["stackoverflow.com", "medium.com"], improved: true },
+    });
+  });
+
+  it("should strip <think> blocks split across streamed chunks", async () => {
+    const result = await client.callTool({
+      name: "answer",
+      arguments: { question: "Should I use zod or valibot for form validation?" },
+    });
+
+    const text = textOf(result);
+    expect(text).toMatch(
+      /^Use zod for its ecosystem, or valibot when bundle size matters \[1\]\./u,
+    );
+    expect(text).not.toContain("think>");
+    expect(text).not.toContain("The user wants a comparison");
+    expect(result.structuredContent).toMatchObject({
+      sources: [{ index: 1, title: "Valibot comparison" }],
+    });
+  });
+
+  it("should list requested follow-up questions one per line", async () => {
+    const result = await client.callTool({
+      name: "answer",
+      arguments: {
+        question: "Should I use pnpm or npm workspaces for a TypeScript monorepo?",
+        follow_ups: true,
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toContain(
+      `Follow-ups:
+How do I configure TypeScript project references in a pnpm workspace?
+How do I migrate an npm workspaces monorepo to pnpm?
+Does pnpm's catalog feature work with Renovate?
+`,
+    );
+    expect(result.structuredContent).toMatchObject({
+      followUps: [
+        "How do I configure TypeScript project references in a pnpm workspace?",
+        "How do I migrate an npm workspaces monorepo to pnpm?",
+        "Does pnpm's catalog feature work with Renovate?",
+      ],
+    });
+  });
+
+  it("should add condensed reasoning for the assistant when disclosure is on", async () => {
+    const server = createServer({
+      maxRetries: 0,
+      history: { maxEntries: 0 },
+      reasoning: { disclose: true },
+      tools: { answer: { cacheTtlMs: 0 } },
+    });
+    const disclosingClient = new Client({ name: "e2e-reasoning", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), disclosingClient.connect(clientTransport)]);
+
+    try {
+      const result = await disclosingClient.callTool({
+        name: "answer",
+        arguments: { question: "Should I use zod or valibot for form validation?" },
+      });
+
+      const [answer, reasoning] = result.content as {
+        type: string;
+        text: string;
+        annotations?: unknown;
+      }[];
+      expect(answer?.text).not.toContain("The user wants a comparison");
+      expect(reasoning).toEqual({
+        type: "text",
+        text: "Model reasoning (condensed):\nThe user wants a comparison. Zod is more popular; valibot is smaller.",
+        annotations: { audience: ["assistant"], priority: 0.2 },
+      });
+    } finally {
+      await disclosingClient.close();
+    }
+  });
+
+  it("should return a structured verdict for a claim and its code", async () => {
+    const result = await client.callTool({
+      name: "verify",
+      arguments: {
+        claim: "Function components support defaultProps",
+        code: 'function Button({ label }) {\n  return <button>{label}</button>;\n}\nButton.defaultProps = { label: "OK" };',
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      verdict: "outdated",
+      confidence: "high",
+      correctedFact: expect.stringContaining("use ES6 default parameters instead [1]"),
+      sources: [{ index: 1, url: "https://react.dev/blog/2024/04/25/react-19-upgrade-guide" }],
+    });
+    expect(textOf(result)).toContain("[1] React 19 Upgrade Guide");
+  });
+
+  it("should mask sensitive data before it is sent and report it", async () => {
+    // The recorded request contains only the masked question
+    const result = await client.callTool({
+      name: "lookup",
+      arguments: {
+        query: "Why does pg fail with ECONNREFUSED 10.0.12.7:5432 from /home/jdoe/api/src/db.ts?",
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toContain("Masked before sending: private-ip (1), home-path (1)");
+    expect(result.structuredContent).toMatchObject({
+      redactions: [
+        { type: "private-ip", count: 1 },
+        { type: "home-path", count: 1 },
+      ],
+    });
+  });
+
+  it("should report a rejected API key as a tool error", async () => {
+    const result = await client.callTool({
+      name: "lookup",
+      arguments: { query: "Is this request rejected?" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain(
+      "AuthenticationError: Perplexity API rejected the API key: 401 Unauthorized",
+    );
+  });
+
+  it("should report rate limits with the Retry-After hint", async () => {
+    const result = await client.callTool({
+      name: "lookup",
+      arguments: { query: "Is this request rate limited?" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("429 Too Many Requests. Retry after 30s.");
+  });
+
+  it("should log each API call with its request ID, model, status and latency", async () => {
+    logs.length = 0;
+    await client.setLoggingLevel("debug");
+    await client.callTool({
+      name: "lookup",
+      arguments: { query: "What is the default timeout for fetch() in Node.js?" },
+    });
+    await client.callTool({ name: "lookup", arguments: { query: "Is this request rejected?" } });
+    await client.setLoggingLevel("info");
+
+    expect(logs.map((log) => [log.level, (log.data as { message: string }).message])).toEqual([
+      ["debug", "Sending chat completion request"],
+      ["info", "Chat completion finished"],
+      ["debug", "Sending chat completion request"],
+      ["error", "Chat completion failed"],
+    ]);
+    const [, finished, sent, failed] = logs.map((log) => log.data);
+    expect(finished).toMatchObject({
+      model: "sonar-pro",
+      status: 200,
+      attempts: 1,
+      latencyMs: expect.any(Number),
+      sources: 2,
+    });
+    expect(failed).toMatchObject({ status: 401, error: "AuthenticationError" });
+    expect(failed).toHaveProperty("requestId", (sent as { requestId: string }).requestId);
+  });
+
+  it("should fail clearly when no fixture was recorded for a request", async () => {
+    const result = await client.callTool({
+      name: "lookup",
+      arguments: { query: "Was this question ever recorded?" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("FixtureError: No recorded fixture for this request");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should run deep research in the background and return the report by job ID", async () => {
+    const started = await client.callTool({
+      name: "deep_research",
+      arguments: { question: "Should we migrate our webpack 5 monorepo to Vite?" },
+    });
+    const { jobId } = started.structuredContent as { jobId: string };
+    expect(textOf(started)).toContain(`Started research job ${jobId}`);
+
+    await vi.waitFor(async () => {
+      const status = await client.callTool({
+        name: "research_status",
+        arguments: { job_id: jobId },
+      });
+      expect(status.structuredContent).toMatchObject({ status: "completed" });
+    });
+
+    const result = await client.callTool({ name: "research_result", arguments: { job_id: jobId } });
+    expect(textOf(result)).toMatch(/^\*\*Summary:\*\* Migrate to Vite incrementally/u);
+    expect(textOf(result)).toContain(
+      "[2] vite-plugin-federation — https://github.com/originjs/vite-plugin-federation",
+    );
+    expect(result.structuredContent).toMatchObject({ jobId, receivedCharacters: 129 });
+  });
+
+  it("should refuse deep research without starting a job once the daily budget is spent", async () => {
+    const config = { usage: { dailyBudgetUsd: 0.5 } };
+    const shared = createSharedServices(config);
+    const start = vi.spyOn(shared.jobs, "start");
+    const usage = createUsageTracker(path.join(stateDirectory, "budget-usage"), {
+      prices: {},
+      dailyBudgetUsd: 0.5,
+    });
+    usage.record({
+      tool: "answer",
+      model: "sonar-pro",
+      usage: { prompt_tokens: 10, completion_tokens: 10, cost: { total_cost: 1 } },
+    });
+    const budgetClient = new Client({ name: "e2e-budget-test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      createServer(config, { ...shared, usage }).connect(serverTransport),
+      budgetClient.connect(clientTransport),
+    ]);
+
+    const result = await budgetClient.callTool({
+      name: "deep_research",
+      arguments: { question: "Should we migrate our webpack 5 monorepo to Vite?" },
+    });
+    await budgetClient.close();
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("Daily budget of $0.5000 reached");
+    expect(start).not.toHaveBeenCalled();
+  });
+
+  it("should report unknown research job IDs as tool errors", async () => {
+    const result = await client.callTool({
+      name: "cancel_research",
+      arguments: { job_id: "job-000000000000" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('Unknown research job "job-000000000000"');
+  });
+
+  it("should reject a malformed history search query as invalid params", async () => {
+    await expect(
+      client.readResource({ uri: "perplexity://history/search?q=%E0%A4%A" }),
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+});
@@ -1,31 +1,119 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import packageJson from "../package.json" with { type: "json" };
+import {
+  type Config,
+  resolveCacheLimits,
+  resolveHistoryLimits,
+  resolveLoggingSettings,
+  resolveProviderSettings,
+  resolveRateLimitSettings,
+  resolveSessionLimits,
+  resolveUsageSettings,
+} from "./config.js";
+import { createHistoryStore, defaultHistoryDirectory } from "./history-store.js";
+import { registerLogging } from "./logging.js";
+import { createProvider } from "./providers/provider.js";
+import { createRateLimiter, type RateLimiter } from "./rate-limiter.js";
+import { createResearchJobs, defaultJobsDirectory, type ResearchJobs } from "./research-jobs.js";
+import { registerHistoryResources } from "./resources/history.js";
+import { registerUsageResource } from "./resources/usage.js";
+import { createResponseCache, defaultCacheDirectory } from "./response-cache.js";
+import { createSessionStore } from "./session-store.js";
 import { registerLookupTool } from "./tools/lookup.js";
 import { registerAnswerTool } from "./tools/answer.js";
+import { registerBatchTools } from "./tools/batch.js";
+import { createDeepResearchRunner, registerDeepResearchTools } from "./tools/deep-research.js";
+import { registerSessionTools } from "./tools/sessions.js";
+import { registerVerifyTool } from "./tools/verify.js";
+import { createUsageTracker, defaultUsageDirectory, type UsageTracker } from "./usage-tracker.js";
+import { registerWorkflowPrompts } from "./workflow-prompts.js";
 
 /**
- * Creates and configures the MCP server with all tools
+ * State shared by every MCP server instance of the process
  */
-function createServer(): McpServer {
+export interface SharedServices {
+  usage: UsageTracker;
+  rateLimiter: RateLimiter;
+  jobs: ResearchJobs;
+}
+
+/**
+ * Creates the usage tracker, rate limiter and research jobs that all client
+ * sessions share, so budgets, rate limits and jobs apply to the whole server.
+ *
+ * @param {Config} config - The loaded configuration
+ * @returns {SharedServices} The shared services
+ */
+export function createSharedServices(config: Config): SharedServices {
+  const usage = createUsageTracker(defaultUsageDirectory(), resolveUsageSettings(config));
+  const rateLimiter = createRateLimiter(resolveRateLimitSettings(config));
+  const jobs = createResearchJobs(
+    defaultJobsDirectory(),
+    createDeepResearchRunner(config, {
+      provider: createProvider(resolveProviderSettings(config)),
+      usage,
+      rateLimiter,
+      history: createHistoryStore(defaultHistoryDirectory(), resolveHistoryLimits(config)),
+    }),
+  );
+  return { usage, rateLimiter, jobs };
+}
+
+/**
+ * Creates and configures the MCP server with all tools, resources and prompts.
+ * The HTTP transport calls this once per client session, so research
+ * sessions are never shared between MCP clients, and passes the same shared
+ * services to every session.
+ */
+export function createServer(
+  config: Config,
+  { usage, rateLimiter, jobs }: SharedServices = createSharedServices(config),
+): McpServer {
   const server = new McpServer({
     name: packageJson.name,
     version: packageJson.version,
   });
 
+  const context = {
+    config,
+    provider: createProvider(resolveProviderSettings(config)),
+    sessions: createSessionStore(resolveSessionLimits(config)),
+    history: createHistoryStore(defaultHistoryDirectory(), resolveHistoryLimits(config)),
+    cache: createResponseCache(defaultCacheDirectory(), resolveCacheLimits(config).maxEntries),
+    usage: usage.forClient(),
+    rateLimiter,
+    jobs,
+    logger: registerLogging(server, resolveLoggingSettings(config)),
+  };
+
   // Register all tools
-  registerLookupTool(server);
-  registerAnswerTool(server);
+  registerLookupTool(server, context);
+  registerAnswerTool(server, context);
+  registerVerifyTool(server, context);
+  registerBatchTools(server, context);
+  registerDeepResearchTools(server, context);
+  registerSessionTools(server, context);
+
+  // Register resources
+  registerUsageResource(server, context);
+  registerHistoryResources(server, context);
+
+  // Register prompts
+  registerWorkflowPrompts(server);
 
   return server;
 }
 
 /**
- * Starts the MCP server with stdio transport
+ * Starts the MCP server with stdio transport and restarts research jobs that
+ * were interrupted when the server last stopped
  */
-export async function runServer(): Promise<void> {
-  const server = createServer();
+export async function runServer(config: Config): Promise<void> {
+  const shared = createSharedServices(config);
+  const server = createServer(config, shared);
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Perplexity MCP Server running on stdio with Lookup and Answer tools");
+  await shared.jobs.resumeInterrupted();
 }
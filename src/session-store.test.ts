@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { createSessionStore } from "./session-store.ts";
+
+const limits = { maxTurns: 2, ttlMs: 1000, maxSessions: 2 };
+
+describe("createSessionStore", () => {
+  it("should return prior turns in order", () => {
+    const store = createSessionStore(limits);
+    store.append("s1", "What is ESM?", "A module system.");
+
+    expect(store.history("s1")).toEqual([
+      { role: "user", content: "What is ESM?" },
+      { role: "assistant", content: "A module system." },
+    ]);
+    expect(store.history("unknown")).toEqual([]);
+  });
+
+  it("should keep only the most recent turns", () => {
+    const store = createSessionStore(limits);
+    store.append("s1", "q1", "a1");
+    store.append("s1", "q2", "a2");
+    store.append("s1", "q3", "a3");
+
+    expect(store.history("s1").map((message) => message.content)).toEqual(["q2", "a2", "q3", "a3"]);
+    expect(store.list()[0]).toMatchObject({ id: "s1", turns: 2, firstQuestion: "q1" });
+  });
+
+  it("should expire idle sessions", () => {
+    let time = 0;
+    const store = createSessionStore(limits, () => time);
+    store.append("s1", "q1", "a1");
+
+    time = 1001;
+    expect(store.history("s1")).toEqual([]);
+    expect(store.list()).toEqual([]);
+  });
+
+  it("should drop the least recently used session beyond the cap", () => {
+    const store = createSessionStore(limits);
+    store.append("s1", "q1", "a1");
+    store.append("s2", "q2", "a2");
+    store.append("s1", "q1b", "a1b");
+    store.append("s3", "q3", "a3");
+
+    expect(store.list().map((session) => session.id)).toEqual(["s1", "s3"]);
+  });
+
+  it("should reset one or all sessions", () => {
+    const store = createSessionStore(limits);
+    store.append("s1", "q1", "a1");
+    store.append("s2", "q2", "a2");
+
+    expect(store.reset("s1")).toBe(1);
+    expect(store.reset("s1")).toBe(0);
+    expect(store.reset()).toBe(1);
+    expect(store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * A single prior message in a research session
+ */
+export interface SessionMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Summary of a session for listing
+ */
+export interface SessionSummary {
+  id: string;
+  turns: number;
+  firstQuestion: string;
+  lastUsedAt: string;
+}
+
+/**
+ * Limits for the in-memory session store
+ */
+export interface SessionLimits {
+  /** Question/answer pairs kept per session; older turns are dropped first */
+  maxTurns: number;
+  /** Idle time after which a session expires */
+  ttlMs: number;
+  /** Sessions kept at once; the least recently used is dropped first */
+  maxSessions: number;
+}
+
+/**
+ * In-memory store of research sessions keyed by caller-chosen IDs
+ */
+export interface SessionStore {
+  history(id: string): SessionMessage[];
+  append(id: string, question: string, answer: string): void;
+  list(): SessionSummary[];
+  /** Removes one session, or all sessions when id is omitted; returns how many were removed */
+  reset(id?: string): number;
+}
+
+interface Session {
+  messages: SessionMessage[];
+  firstQuestion: string;
+  lastUsedAt: number;
+}
+
+/**
+ * Creates a session store that keeps a bounded history per session.
+ * Expired sessions are pruned lazily whenever the store is accessed.
+ *
+ * @param {SessionLimits} limits - History, expiry and capacity limits
+ * @param {() => number} now - Clock, injectable for tests
+ * @returns {SessionStore} The store
+ */
+export function createSessionStore(
+  limits: SessionLimits,
+  now: () => number = Date.now,
+): SessionStore {
+  // Map iteration order doubles as LRU order: touched sessions are re-inserted last
+  const sessions = new Map<string, Session>();
+
+  const prune = () => {
+    const cutoff = now() - limits.ttlMs;
+    for (const [id, session] of sessions) {
+      if (session.lastUsedAt < cutoff) {
+        sessions.delete(id);
+      }
+    }
+  };
+
+  return {
+    history(id) {
+      prune();
+      return [...(sessions.get(id)?.messages ?? [])];
+    },
+
+    append(id, question, answer) {
+      prune();
+      const session = sessions.get(id) ?? { messages: [], firstQuestion: question, lastUsedAt: 0 };
+      session.messages.push(
+        { role: "user", content: question },
+        { role: "assistant", content: answer },
+      );
+      session.messages.splice(0, Math.max(0, session.messages.length - limits.maxTurns * 2));
+      session.lastUsedAt = now();
+
+      sessions.delete(id);
+      sessions.set(id, session);
+      for (const oldest of sessions.keys()) {
+        if (sessions.size <= limits.maxSessions) {
+          break;
+        }
+        sessions.delete(oldest);
+      }
+    },
+
+    list() {
+      prune();
+      return [...sessions].map(([id, session]) => ({
+        id,
+        turns: session.messages.length / 2,
+        firstQuestion: session.firstQuestion,
+        lastUsedAt: new Date(session.lastUsedAt).toISOString(),
+      }));
+    },
+
+    reset(id) {
+      prune();
+      if (id === undefined) {
+        const count = sessions.size;
+        sessions.clear();
+        return count;
+      }
+      return sessions.delete(id) ? 1 : 0;
+    },
+  };
+}
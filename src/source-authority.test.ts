@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { Source } from "./schemas.ts";
+import { buildAuthorityRetry, classifySource, isLowAuthority } from "./source-authority.ts";
+
+const source = (url: string, tier?: Source["tier"]): Source => ({
+  index: 1,
+  title: "Source",
+  url,
+  tier,
+});
+
+describe("classifySource", () => {
+  it.each([
+    ["https://github.com/vitejs/vite/blob/main/packages/vite/src/node/config.ts", "source-code"],
+    ["https://gitlab.com/group/project/-/blob/main/lib/index.js", "source-code"],
+    ["https://raw.githubusercontent.com/nodejs/undici/main/lib/agent.js", "source-code"],
+    ["https://github.com/vitejs/vite/blob/main/docs/guide/migration.md", "repository"],
+    ["https://github.com/vitejs/vite/releases/tag/v6.0.0", "repository"],
+    ["https://github.com/nodejs/node/issues/46706", "repository"],
+    ["https://nodejs.org/api/globals.html#fetch", "official"],
+    ["https://developer.mozilla.org/en-US/docs/Web/API/fetch", "official"],
+    ["https://docs.npmjs.com/cli/v10/commands/npm-install", "official"],
+    ["https://vite.dev/guide/build", "official"],
+    ["https://www.npmjs.com/package/zod", "official"],
+    ["https://stackoverflow.com/questions/46946380", "community"],
+    ["https://medium.com/@someone/vite-tips-1234", "community"],
+    ["https://dev.to/someone/zod-vs-valibot", "community"],
+    ["https://www.geeksforgeeks.org/node-js-fetch/", "community"],
+  ])("should rate %s as %s", (url, tier) => {
+    expect(classifySource(url)).toBe(tier);
+  });
+
+  it("should leave unknown sites and invalid URLs unrated", () => {
+    expect(classifySource("https://example.com/blog/post")).toBeUndefined();
+    expect(classifySource("not a url")).toBeUndefined();
+  });
+
+  it("should apply configured rules before the built-in ones", () => {
+    const rules = [
+      { match: "github.com/my-org/handbook", tier: "official" as const },
+      { match: "example.com", tier: "official" as const },
+      { match: "medium.com", tier: "repository" as const },
+    ];
+
+    expect(classifySource("https://github.com/my-org/handbook/blob/main/x.ts", rules)).toBe(
+      "official",
+    );
+    expect(classifySource("https://github.com/my-org/handbook-v2/blob/main/x.ts", rules)).toBe(
+      "source-code",
+    );
+    expect(classifySource("https://blog.example.com/post", rules)).toBe("official");
+    expect(classifySource("https://medium.com/@team/post", rules)).toBe("repository");
+  });
+});
+
+describe("isLowAuthority", () => {
+  it("should be true only when every source is community-tier", () => {
+    expect(isLowAuthority([source("https://a.dev", "community")])).toBe(true);
+    expect(
+      isLowAuthority([source("https://a.dev", "community"), source("https://b.dev", "official")]),
+    ).toBe(false);
+    expect(
+      isLowAuthority([source("https://a.dev", "community"), source("https://example.com")]),
+    ).toBe(false);
+    expect(isLowAuthority([])).toBe(false);
+  });
+});
+
+describe("buildAuthorityRetry", () => {
+  const sources = [
+    source("https://stackoverflow.com/questions/1", "community"),
+    source("https://www.medium.com/@a/post", "community"),
+    source("https://stackoverflow.com/questions/2", "community"),
+  ];
+
+  it("should exclude each community domain once, keeping existing filters", () => {
+    expect(
+      buildAuthorityRetry({ excludeDomains: ["w3schools.com"], recency: "year" }, sources),
+    ).toEqual({
+      filters: {
+        excludeDomains: ["w3schools.com", "stackoverflow.com", "medium.com"],
+        recency: "year",
+      },
+      excludedDomains: ["stackoverflow.com", "medium.com"],
+    });
+  });
+
+  it("should not retry searches limited to specific domains", () => {
+    expect(buildAuthorityRetry({ includeDomains: ["medium.com"] }, sources)).toBeUndefined();
+  });
+
+  it("should stay within the domain limit", () => {
+    const excludeDomains = Array.from({ length: 19 }, (_, index) => `site${index}.com`);
+    expect(buildAuthorityRetry({ excludeDomains }, sources)?.excludedDomains).toEqual([
+      "stackoverflow.com",
+    ]);
+    expect(
+      buildAuthorityRetry({ excludeDomains: [...excludeDomains, "extra.com"] }, sources),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+import { type AuthorityTier, SearchDomain, type SearchFilters, type Source } from "./schemas.js";
+
+/** Perplexity accepts at most this many included and excluded domains in total */
+const MAX_FILTER_DOMAINS = 20;
+
+/**
+ * A configured rule: sources whose host is the rule's domain (or a subdomain
+ * of it), and whose path starts with the rule's path if it has one, get the tier
+ */
+export interface AuthorityRule {
+  /** A domain with an optional path prefix, e.g. "github.com/my-org" */
+  match: string;
+  tier: AuthorityTier;
+}
+
+/**
+ * Authority rules and the lookup retry switch, resolved from the configuration
+ */
+export interface SourceAuthoritySettings {
+  rules: AuthorityRule[];
+  /** Retry a lookup once, excluding the domains of its sources, when all of them are community-tier */
+  retryLowAuthority: boolean;
+}
+
+/**
+ * A stricter retry after a lookup returned only community sources
+ */
+export interface AuthorityRetry {
+  filters: SearchFilters;
+  /** Domains of the community sources, newly excluded for the retry */
+  excludedDomains: string[];
+}
+
+const CODE_HOSTS = ["github.com", "gitlab.com", "bitbucket.org", "codeberg.org"];
+
+/** A file or directory inside a repository, e.g. /owner/repo/blob/main/src/index.ts */
+const REPOSITORY_FILE = /^\/[^/]+\/[^/]+\/(?:-\/)?(?:blob|tree|src|raw)\//u;
+
+/** Files in a repository that document rather than implement */
+const DOCUMENTATION_FILE = /\.(?:md|mdx|markdown|rst|txt)$/iu;
+
+const COMMUNITY_DOMAINS = [
+  "stackoverflow.com",
+  "stackexchange.com",
+  "superuser.com",
+  "serverfault.com",
+  "reddit.com",
+  "quora.com",
+  "medium.com",
+  "dev.to",
+  "hashnode.dev",
+  "substack.com",
+  "blogspot.com",
+  "wordpress.com",
+  "linkedin.com",
+  "geeksforgeeks.org",
+  "w3schools.com",
+  "tutorialspoint.com",
+  "javatpoint.com",
+  "programiz.com",
+  "freecodecamp.org",
+  "educative.io",
+  "sitepoint.com",
+  "codeproject.com",
+  "c-sharpcorner.com",
+];
+
+const OFFICIAL_DOMAINS = [
+  "developer.mozilla.org",
+  "nodejs.org",
+  "typescriptlang.org",
+  "tc39.es",
+  "ecma-international.org",
+  "whatwg.org",
+  "w3.org",
+  "npmjs.com",
+  "web.dev",
+  "readthedocs.io",
+  "github.io",
+];
+
+/** Documentation sections of project sites, e.g. vite.dev/guide or react.dev/reference */
+const DOCUMENTATION_PATH =
+  /^\/(?:docs?|documentation|api|reference|guides?|manual|learn)(?:\/|$)/iu;
+
+const isDomainOrSubdomain = (host: string, domain: string) =>
+  host === domain || host.endsWith(`.${domain}`);
+
+/**
+ * Returns the lower-cased host without a leading "www.".
+ */
+function hostOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./u, "");
+}
+
+/**
+ * Checks a configured rule against a URL.
+ */
+function matchesRule(url: URL, rule: AuthorityRule): boolean {
+  const [domain = "", ...path] = rule.match.toLowerCase().split("/");
+  if (!isDomainOrSubdomain(hostOf(url), domain.replace(/^www\./u, ""))) {
+    return false;
+  }
+  const prefix = path.filter(Boolean).join("/");
+  return !prefix || `${url.pathname.toLowerCase()}/`.startsWith(`/${prefix}/`);
+}
+
+/**
+ * Built-in tiers, following the priority order in the prompts' Authoritative
+ * Sources guidance.
+ */
+function builtInTier(url: URL): AuthorityTier | undefined {
+  const host = hostOf(url);
+  if (host === "raw.githubusercontent.com") {
+    return DOCUMENTATION_FILE.test(url.pathname) ? "repository" : "source-code";
+  }
+  if (CODE_HOSTS.includes(host)) {
+    return REPOSITORY_FILE.test(url.pathname) && !DOCUMENTATION_FILE.test(url.pathname)
+      ? "source-code"
+      : "repository";
+  }
+  if (COMMUNITY_DOMAINS.some((domain) => isDomainOrSubdomain(host, domain))) {
+    return "community";
+  }
+  if (
+    OFFICIAL_DOMAINS.some((domain) => isDomainOrSubdomain(host, domain)) ||
+    /^(?:docs|developer|developers)\./u.test(host) ||
+    DOCUMENTATION_PATH.test(url.pathname)
+  ) {
+    return "official";
+  }
+  return undefined;
+}
+
+/**
+ * Rates a source URL. Configured rules are checked first, in order, then the
+ * built-in rules: repository files on GitHub, GitLab, Bitbucket and Codeberg
+ * are source code, other repository pages (READMEs, releases, issues) are
+ * repository docs, known Q&A sites, blogs and tutorial farms are community,
+ * and standards bodies, MDN, npm and documentation sites are official.
+ *
+ * @param {string} url - The source URL
+ * @param {AuthorityRule[]} rules - Configured rules, checked before the built-in ones
+ * @returns {AuthorityTier | undefined} The tier, or undefined when no rule matches
+ */
+export function classifySource(
+  url: string,
+  rules: AuthorityRule[] = [],
+): AuthorityTier | undefined {
+  const parsed = URL.parse(url);
+  if (!parsed) {
+    return undefined;
+  }
+  return rules.find((rule) => matchesRule(parsed, rule))?.tier ?? builtInTier(parsed);
+}
+
+/**
+ * Whether an answer rests only on community sources. Answers without sources,
+ * or with any source of a higher or unknown tier, are not.
+ *
+ * @param {Source[]} sources - The answer's sources, with tiers
+ * @returns {boolean} True when every source is community-tier
+ */
+export function isLowAuthority(sources: Source[]): boolean {
+  return sources.length > 0 && sources.every((source) => source.tier === "community");
+}
+
+/**
+ * Builds stricter search filters for retrying a low-authority answer: the
+ * domains of its community sources are excluded, up to Perplexity's domain
+ * limit. Returns undefined when the search was already limited to specific
+ * domains or no domain can be added.
+ *
+ * @param {SearchFilters} filters - The filters of the first attempt
+ * @param {Source[]} sources - The low-authority sources it returned
+ * @returns {AuthorityRetry | undefined} The filters for the retry
+ */
+export function buildAuthorityRetry(
+  filters: SearchFilters,
+  sources: Source[],
+): AuthorityRetry | undefined {
+  if (filters.includeDomains && filters.includeDomains.length > 0) {
+    return undefined;
+  }
+  const excluded = filters.excludeDomains ?? [];
+  const domains = new Set<string>();
+  for (const source of sources) {
+    const domain = SearchDomain.safeParse(URL.parse(source.url)?.hostname.replace(/^www\./u, ""));
+    if (domain.success && !excluded.includes(domain.data)) {
+      domains.add(domain.data);
+    }
+  }
+  const excludedDomains = [...domains].slice(0, MAX_FILTER_DOMAINS - excluded.length);
+  if (excludedDomains.length === 0) {
+    return undefined;
+  }
+  return {
+    filters: { ...filters, excludeDomains: [...excluded, ...excludedDomains] },
+    excludedDomains,
+  };
+}
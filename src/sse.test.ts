@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { readServerSentEvents } from "./sse.ts";
+
+const streamOf = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+};
+
+const collect = async (chunks: string[]) => {
+  const events: string[] = [];
+  for await (const data of readServerSentEvents(streamOf(chunks))) {
+    events.push(data);
+  }
+  return events;
+};
+
+describe("readServerSentEvents", () => {
+  it("should yield the data of each event", async () => {
+    expect(await collect(["data: one\n\ndata: two\n\n"])).toEqual(["one", "two"]);
+  });
+
+  it("should reassemble events split across chunks", async () => {
+    expect(await collect(["da", 'ta: {"a":', "1}\n", "\ndata: [DONE]\n\n"])).toEqual([
+      '{"a":1}',
+      "[DONE]",
+    ]);
+  });
+
+  it("should handle CRLF line endings split between chunks", async () => {
+    expect(await collect(["data: one\r", "\n\r\ndata: two\r\n\r\n"])).toEqual(["one", "two"]);
+  });
+
+  it("should join multi-line data fields and ignore comments and other fields", async () => {
+    expect(await collect([": keep-alive\n", "event: message\ndata: a\ndata: b\n\n"])).toEqual([
+      "a\nb",
+    ]);
+  });
+
+  it("should flush a final event without a trailing blank line", async () => {
+    expect(await collect(["data: last"])).toEqual(["last"]);
+  });
+});
@@ -0,0 +1,65 @@
+const LINE_BREAK = /\r\n|\r|\n/u;
+
+/**
+ * Extracts the value of a "data:" field line, or undefined for any other line.
+ */
+function parseDataLine(line: string): string | undefined {
+  if (!line.startsWith("data:")) {
+    return undefined;
+  }
+  const value = line.slice("data:".length);
+  return value.startsWith(" ") ? value.slice(1) : value;
+}
+
+/**
+ * Reads a Server-Sent Events stream and yields the data payload of each event.
+ * Multi-line data fields are joined with "\n"; comments and other fields are ignored.
+ * Events may be split across network chunks, so incomplete lines are buffered
+ * until the terminating newline arrives.
+ *
+ * @param {ReadableStream<Uint8Array>} stream - The response body to read
+ * @returns {AsyncGenerator<string>} The data payload of each complete event
+ */
+export async function* readServerSentEvents(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+
+  for await (const bytes of stream) {
+    buffer += decoder.decode(bytes, { stream: true });
+
+    for (let match = LINE_BREAK.exec(buffer); match; match = LINE_BREAK.exec(buffer)) {
+      // A trailing "\r" may be the first half of a "\r\n" split across chunks
+      if (match[0] === "\r" && match.index === buffer.length - 1) {
+        break;
+      }
+      const line = buffer.slice(0, match.index);
+      buffer = buffer.slice(match.index + match[0].length);
+
+      if (line === "") {
+        if (dataLines.length > 0) {
+          yield dataLines.join("\n");
+          dataLines = [];
+        }
+        continue;
+      }
+
+      const data = parseDataLine(line);
+      if (data !== undefined) {
+        dataLines.push(data);
+      }
+    }
+  }
+
+  // Flush a final event that was not followed by a blank line
+  buffer += decoder.decode();
+  const data = parseDataLine(buffer.replace(LINE_BREAK, ""));
+  if (data !== undefined) {
+    dataLines.push(data);
+  }
+  if (dataLines.length > 0) {
+    yield dataLines.join("\n");
+  }
+}
@@ -1,12 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { stripThinkContent } from "./strip-think-content.ts";
+import { condenseReasoning, createThinkParser, splitThinkContent } from "./strip-think-content.ts";
 
-describe("stripThinkContent", () => {
+describe("splitThinkContent", () => {
   describe("basic functionality", () => {
     it("should remove simple think blocks", () => {
       const input = "Before <think>reasoning content</think> After";
       const expected = "Before  After";
-      const result = stripThinkContent(input);
+      const result = splitThinkContent(input).content;
       expect(result).toBe(expected);
     });
 
@@ -19,14 +19,14 @@ describe("stripThinkContent", () => {
 </think>
 After`;
       const expected = "Before\n\nAfter";
-      const result = stripThinkContent(input);
+      const result = splitThinkContent(input).content;
       expect(result).toBe(expected);
     });
 
-    it("should remove multiple separate think blocks", () => {
+    it("should keep the text between separate think blocks", () => {
       const input = "Start <think>first</think> middle <think>second</think> end";
-      const expected = "Start  end";
-      const result = stripThinkContent(input);
+      const expected = "Start  middle  end";
+      const result = splitThinkContent(input).content;
       expect(result).toBe(expected);
     });
   });
@@ -44,7 +44,7 @@ After`;
 After content`;
 
       const expected = "Before content\n\nAfter content";
-      const result = stripThinkContent(input);
+      const result = splitThinkContent(input).content;
       expect(result).toBe(expected);
     });
 
@@ -64,13 +64,11 @@ After content`;
 End`;
 
       const expected = "Start\n\nEnd";
-      const result = stripThinkContent(input);
+      const result = splitThinkContent(input).content;
       expect(result).toBe(expected);
     });
 
     it("should handle mixed nested and separate think blocks", () => {
-      // Intentional behavior when combining nested blocks with separate blocks.
-      // Example: "A <think>1</think> B <think>2</think> C" => "A C".
       const input = `First <think>simple block</think> middle
 <think>
   Outer block
@@ -81,8 +79,8 @@ End`;
 </think>
 Last <think>another simple</think> end`;
 
-      const expected = "First  end";
-      const result = stripThinkContent(input);
+      const expected = "First  middle\n\nLast  end";
+      const result = splitThinkContent(input).content;
       expect(result).toBe(expected);
     });
 
@@ -100,7 +98,7 @@ Last <think>another simple</think> end`;
 </think>`;
 
       const expected = "";
-      const result = stripThinkContent(input);
+      const result = splitThinkContent(input).content;
       expect(result).toBe(expected);
     });
   });
@@ -109,7 +107,7 @@ Last <think>another simple</think> end`;
     it("should handle unbalanced nested tags - extra opening tag", () => {
       const input = "<think>foo<think></think>";
       const expected = "";
-      const result = stripThinkContent(input);
+      const result = splitThinkContent(input).content;
 
       expect(result).toBe(expected);
     });
@@ -117,32 +115,147 @@ Last <think>another simple</think> end`;
     it("should handle unbalanced nested tags - extra closing tag", () => {
       const input = "Start <think></think>foo</think> End";
       const expected = "Start  End";
-      const result = stripThinkContent(input);
+      const result = splitThinkContent(input).content;
 
       expect(result).toBe(expected);
     });
 
-    it("should handle text around unbalanced tags", () => {
+    it("should hide text after an unbalanced nested opening tag", () => {
       const input = "Before <think>foo<think></think> After";
-      const expected = "Before  After";
-      const result = stripThinkContent(input);
+      const expected = "Before ";
+      const result = splitThinkContent(input).content;
       expect(result).toBe(expected);
     });
 
-    it("should handle completely unmatched opening tag", () => {
+    it("should hide everything after a completely unmatched opening tag", () => {
       const input = "Before <think>unclosed content After";
-      const expected = "Before <think>unclosed content After";
-      const result = stripThinkContent(input);
+      const expected = "Before ";
+      const result = splitThinkContent(input).content;
 
       expect(result).toBe(expected);
     });
 
-    it("should handle completely unmatched closing tag", () => {
+    it("should drop a completely unmatched closing tag", () => {
       const input = "Before unopened content</think> After";
-      const expected = "Before unopened content</think> After";
-      const result = stripThinkContent(input);
+      const expected = "Before unopened content After";
+      const result = splitThinkContent(input).content;
 
       expect(result).toBe(expected);
     });
   });
+
+  describe("tag variants", () => {
+    it("should match tags in any case and with whitespace inside the brackets", () => {
+      expect(splitThinkContent("A <THINK>x</Think> B < think >y</ THINK > C").content).toBe(
+        "A  B  C",
+      );
+    });
+
+    it("should leave other tags and comparisons alone", () => {
+      const input = "Use <thinking-cap> and <b>bold</b> when a < b and <thin";
+      expect(splitThinkContent(input).content).toBe(input);
+    });
+  });
+
+  describe("reasoning", () => {
+    it("should return the reasoning of every block without tags", () => {
+      expect(
+        splitThinkContent("<think>\nPlan the answer.\n</think>Answer <Think>Check it.</Think>"),
+      ).toEqual({ content: "Answer ", reasoning: "Plan the answer.\n\nCheck it." });
+    });
+
+    it("should keep the reasoning of an unterminated block and nested blocks", () => {
+      expect(splitThinkContent("<think>outer <think>inner</think> rest")).toEqual({
+        content: "",
+        reasoning: "outer inner rest",
+      });
+    });
+
+    it("should return empty reasoning when there are no think blocks", () => {
+      expect(splitThinkContent("Just an answer")).toEqual({
+        content: "Just an answer",
+        reasoning: "",
+      });
+    });
+  });
+});
+
+const run = (chunks: string[]) => {
+  const filter = createThinkParser();
+  return chunks.map((chunk) => filter.push(chunk)).join("") + filter.flush();
+};
+
+describe("createThinkParser", () => {
+  it("should pass through content without think blocks", () => {
+    expect(run(["Hello ", "world"])).toBe("Hello world");
+  });
+
+  it("should remove a think block contained in one chunk", () => {
+    expect(run(["Before <think>reasoning</think> After"])).toBe("Before  After");
+  });
+
+  it("should remove a think block whose tags are split across chunks", () => {
+    expect(run(["Before <th", "ink>reason", "ing</thi", "nk> After"])).toBe("Before  After");
+  });
+
+  it("should recognize case-variant tags split across chunks and collect the reasoning", () => {
+    const filter = createThinkParser();
+    const chunks = ["<THI", "NK>Weigh ", "both.</ThI", "nK >Use zod."];
+
+    expect(chunks.map((chunk) => filter.push(chunk)).join("") + filter.flush()).toBe("Use zod.");
+    expect(filter.reasoning).toBe("Weigh both.");
+  });
+
+  it("should hold back a possible tag prefix until it is resolved", () => {
+    const filter = createThinkParser();
+    expect(filter.push("Answer <")).toBe("Answer ");
+    expect(filter.push("b>bold</b>")).toBe("<b>bold</b>");
+    expect(filter.flush()).toBe("");
+  });
+
+  it("should track nested think blocks by depth", () => {
+    expect(run(["A <think>outer <think>inner</think> still hidden</think> B"])).toBe("A  B");
+  });
+
+  it("should never emit a stray closing tag", () => {
+    expect(run(["Before unopened content</think> After"])).toBe("Before unopened content After");
+    expect(run(["Start <think>a</think>foo", "</th", "ink> End"])).toBe("Start foo End");
+  });
+
+  it("should extend the previous block up to a stray closing tag in the same chunk", () => {
+    const filter = createThinkParser();
+
+    expect(filter.push("Start <think>Plan.</think> More plan.</think> End")).toBe("Start  End");
+    expect(filter.reasoning).toBe("Plan. More plan.");
+  });
+
+  it("should hide content after an unclosed opening tag", () => {
+    expect(run(["Visible <think>never closed"])).toBe("Visible ");
+  });
+
+  it("should emit a trailing partial tag on flush", () => {
+    expect(run(["Ends with <thi"])).toBe("Ends with <thi");
+  });
+});
+
+describe("condenseReasoning", () => {
+  it("should collapse whitespace and keep short reasoning whole", () => {
+    expect(condenseReasoning("  The user asks   about zod.\n\n\nCheck   the docs. ", 200)).toBe(
+      "The user asks about zod.\nCheck the docs.",
+    );
+  });
+
+  it("should keep whole sentences from the start and the end of long reasoning", () => {
+    const sentences = Array.from({ length: 40 }, (_, index) => `Step ${index + 1} done.`);
+    const condensed = condenseReasoning(sentences.join(" "), 120);
+
+    expect(condensed.length).toBeLessThanOrEqual(120);
+    expect(condensed).toMatch(/^Step 1 done\. .* \[…\] .*Step 40 done\.$/u);
+    expect(condensed).not.toContain("Step 20 done.");
+  });
+
+  it("should cut a single overlong sentence at both ends", () => {
+    const condensed = condenseReasoning("a".repeat(500), 105);
+    expect(condensed).toBe(`${"a".repeat(50)} […] ${"a".repeat(50)}`);
+  });
 });
@@ -1,32 +1,165 @@
+/** A complete opening or closing think tag, in any case, e.g. "<think>", "</Think>", "< /THINK >" */
+const TAG = /^<\s*(\/?)\s*think\s*>/iu;
+
+/** Text that may still become a think tag once the next chunk arrives */
+const TAG_PREFIX = /^<\s*\/?\s*(?:t(?:h(?:i(?:n(?:k\s*)?)?)?)?)?$/iu;
+
+/** Marks the sentences left out of condensed reasoning */
+const OMISSION = " […] ";
+
+/**
+ * Incremental <think> parser for streamed content.
+ */
+export interface ThinkParser {
+  /** Accepts the next chunk and returns the answer text that is safe to show so far. */
+  push(chunk: string): string;
+  /** Returns any buffered answer text once the stream has ended. */
+  flush(): string;
+  /** The reasoning hidden so far, without its tags; separate blocks are separated by a blank line. */
+  readonly reasoning: string;
+}
+
 /**
- * Removes <think> blocks from the response content.
- * The sonar-reasoning-pro model outputs reasoning tokens in <think> blocks
- * that should be filtered out before returning to the client.
+ * Creates a stateful parser that separates <think> blocks from the answer in
+ * streamed chunks. The sonar-reasoning-pro model outputs its reasoning tokens
+ * in these blocks, and they must not reach the client as part of the answer.
+ *
+ * - Tags split across chunk boundaries are buffered until they can be recognized.
+ * - Tags match in any case and with whitespace inside the brackets.
+ * - Nested blocks are tracked by depth, so inner closing tags do not leak reasoning.
+ * - A block that is never closed hides everything after its opening tag.
+ * - A stray closing tag outside any block is dropped, never shown. When it
+ *   follows a block, the text in between is taken as part of that block, as far
+ *   as it has not been returned by an earlier push().
  *
- * Intentional behavior: We remove everything from the first "<think>" to the
- * last "</think>", treating any nested or stray think tags as a single block.
- * For example, the input "A <think>1</think> B <think>2</think> C" becomes
- * "A C" (note that " B " is removed). This is by design: there should only be
- * one reasoning block, and any accidental inner think tags must not interfere
- * with the primary goal of stripping the reasoning block entirely.
+ * Text between separate blocks is part of the answer, e.g.
+ * "A <think>1</think> B <think>2</think> C" becomes "A  B  C".
+ *
+ * @returns {ThinkParser} A parser with push() and flush() methods and the reasoning collected so far
+ */
+export function createThinkParser(): ThinkParser {
+  let buffer = "";
+  let depth = 0;
+  let reasoning = "";
+
+  const drain = (final: boolean): string => {
+    let output = "";
+    // Where the answer resumed after the last block closed in this drain
+    let blockEnd: number | undefined;
+    const emit = (text: string) => {
+      if (depth === 0) {
+        output += text;
+      } else {
+        reasoning += text;
+      }
+    };
+
+    while (buffer.length > 0) {
+      const tagStart = buffer.indexOf("<");
+      if (tagStart === -1) {
+        emit(buffer);
+        buffer = "";
+        break;
+      }
+
+      emit(buffer.slice(0, tagStart));
+      buffer = buffer.slice(tagStart);
+
+      const tag = TAG.exec(buffer);
+      if (tag) {
+        const closing = Boolean(tag[1]);
+        if (!closing) {
+          if (depth === 0 && reasoning.trim()) {
+            reasoning = `${reasoning.trimEnd()}\n\n`;
+          }
+          depth += 1;
+        } else if (depth === 0) {
+          if (blockEnd !== undefined) {
+            reasoning += output.slice(blockEnd);
+            output = output.slice(0, blockEnd);
+          }
+        } else {
+          depth -= 1;
+          if (depth === 0) {
+            blockEnd = output.length;
+          }
+        }
+        buffer = buffer.slice(tag[0].length);
+      } else if (!final && TAG_PREFIX.test(buffer)) {
+        // Possibly the start of a tag that continues in the next chunk
+        break;
+      } else {
+        emit("<");
+        buffer = buffer.slice(1);
+      }
+    }
+    return output;
+  };
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      return drain(false);
+    },
+    flush() {
+      return drain(true);
+    },
+    get reasoning() {
+      return reasoning.trim();
+    },
+  };
+}
+
+/**
+ * Separates the <think> blocks of a complete response from its answer (see
+ * createThinkParser() for how tags are matched).
  *
  * @param {string} input - The raw content from the API response
- * @returns {string} The content with <think> blocks removed
+ * @returns {{ content: string; reasoning: string }} The answer without <think> blocks, and the hidden reasoning
  */
-export function stripThinkContent(input: string): string {
-  const open = "<think>";
-  const close = "</think>";
+export function splitThinkContent(input: string): { content: string; reasoning: string } {
+  const parser = createThinkParser();
+  const content = parser.push(input) + parser.flush();
+  return { content, reasoning: parser.reasoning };
+}
 
-  const firstOpen = input.indexOf(open);
-  if (firstOpen === -1) {
-    return input;
+/**
+ * Shortens reasoning for disclosure: whitespace is collapsed, and when the
+ * text is still longer than maxLength, whole sentences are kept from the start
+ * (the plan) and the end (the conclusion) with " […] " in between.
+ *
+ * @param {string} reasoning - Reasoning from splitThinkContent()
+ * @param {number} maxLength - Upper bound for the condensed text, in characters
+ * @returns {string} The condensed reasoning
+ */
+export function condenseReasoning(reasoning: string, maxLength: number): string {
+  const text = reasoning
+    .split(/\n\s*\n/u)
+    .map((paragraph) => paragraph.replaceAll(/\s+/gu, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+  if (text.length <= maxLength) {
+    return text;
   }
 
-  const lastClose = input.lastIndexOf(close);
-  if (lastClose === -1 || lastClose < firstOpen) {
-    return input;
-  }
+  const budget = Math.floor((maxLength - OMISSION.length) / 2);
+  const sentences = text.split(/(?<=[.!?])\s+/u);
+  const take = (candidates: string[]) => {
+    const kept: string[] = [];
+    let length = 0;
+    for (const sentence of candidates) {
+      if (length + sentence.length + 1 > budget) {
+        break;
+      }
+      kept.push(sentence);
+      length += sentence.length + 1;
+    }
+    return kept;
+  };
 
-  const end = lastClose + close.length;
-  return input.slice(0, firstOpen) + input.slice(end);
+  const head = take(sentences);
+  const tail = take(sentences.slice(head.length).toReversed()).toReversed();
+  const start = head.length > 0 ? head.join(" ") : text.slice(0, budget).trimEnd();
+  const end = tail.length > 0 ? tail.join(" ") : text.slice(-budget).trimStart();
+  return `${start}${OMISSION}${end}`;
 }
@@ -1,13 +1,37 @@
 import { z } from "zod";
-import { performChatCompletion } from "../perplexity-client.js";
-import { ANSWER_SYSTEM_PROMPT } from "../prompts.js";
+import { parseAnswerSections } from "../answer-sections.js";
+import {
+  resolveCitationOptions,
+  resolveReasoningSettings,
+  resolveRedactionSettings,
+  resolveSourceAuthoritySettings,
+  resolveToolSettings,
+} from "../config.js";
+import { formatCompletionText } from "../perplexity-client.js";
+import { cachedChatCompletion } from "../response-cache.js";
+import { DependencyContext, Redaction, Source } from "../schemas.js";
+import { resolveSearchFilters, searchFilterInputShape } from "../search-filters.js";
+import { createProgressReporter } from "./progress.js";
+import { reasoningContent } from "./reasoning.js";
+import { toToolErrorResult } from "./tool-error.js";
+import { formatAssumedVersions, withDependencyContext } from "./workspace.js";
+import type { ToolContext } from "./context.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 /**
  * Registers the answer tool with the MCP server.
  * Researches questions and provides recommendations backed by sources.
  */
-export function registerAnswerTool(server: McpServer) {
+export function registerAnswerTool(
+  server: McpServer,
+  { config, provider, sessions, usage, history, cache, rateLimiter, logger }: ToolContext,
+) {
+  const settings = resolveToolSettings(config, "answer");
+  const citations = resolveCitationOptions(config);
+  const redaction = resolveRedactionSettings(config);
+  const authority = resolveSourceAuthoritySettings(config);
+  const reasoning = resolveReasoningSettings(config);
+
   server.registerTool(
     "answer",
     {
@@ -16,19 +40,121 @@ Researches a question, compares options, and recommends a path (backed by source
 Use for library choices, architecture trade-offs, migrations, complex debugging, and performance decisions.
 Returns a concise recommendation, a brief why, and short how-to steps.
 Examples: "Should I use Zod or Valibot?", "How to optimize React bundle size?", "Best auth approach for Node.js microservices?"
-One question per call—split combined requests into separate queries.
+One question per call—split combined requests into separate queries, or use batch_answer for independent ones.
 `.trim(),
       inputSchema: {
         question: z.string().describe("The decision or problem to answer"),
+        fresh: z.boolean().optional().describe("Bypass the response cache and fetch a new result"),
+        follow_ups: z
+          .boolean()
+          .optional()
+          .describe("Return suggested follow-up questions (defaults to the configured setting)"),
+        session_id: z
+          .string()
+          .min(1)
+          .max(128)
+          .optional()
+          .describe("Continue a research session: earlier turns with this ID are sent as context"),
+        ...searchFilterInputShape,
+      },
+      outputSchema: {
+        answer: z.string().describe("The full answer text, with inline [n] citations"),
+        recommendation: z.string().optional().describe("The advised approach"),
+        why: z.string().optional().describe("Key reasons and evidence"),
+        implementation: z.string().optional().describe("Practical steps and code"),
+        tradeOffs: z.string().optional().describe("What is gained vs sacrificed"),
+        alternatives: z.string().optional().describe("Other options if constraints change"),
+        sources: z.array(Source).describe("Sources referenced by the [n] citations"),
+        danglingCitations: z
+          .array(z.number())
+          .optional()
+          .describe("Citation numbers the model used that matched no source"),
+        cachedAt: z
+          .string()
+          .optional()
+          .describe("Original retrieval time, present when served from cache"),
+        redactions: z
+          .array(Redaction)
+          .optional()
+          .describe("Sensitive data masked in the question before it was sent"),
+        followUps: z
+          .array(z.string())
+          .optional()
+          .describe("Suggested next questions, each usable as-is in another lookup or answer call"),
+        assumedVersions: DependencyContext.optional().describe(
+          "Installed package versions and Node engine sent with the question",
+        ),
       },
     },
-    async ({ question }) => {
-      const result = await performChatCompletion([{ role: "user", content: question }], {
-        model: "sonar-reasoning-pro",
-        system: ANSWER_SYSTEM_PROMPT,
-        searchContextSize: "high",
-      });
-      return { content: [{ type: "text", text: result }] };
+    async (
+      { question, fresh, follow_ups: followUps, session_id: sessionId, ...filters },
+      extra,
+    ) => {
+      try {
+        await usage.assertWithinBudget(sessionId);
+        const { query: sentQuery, dependencyContext } = config.dependencyContext
+          ? await withDependencyContext(server, question)
+          : { query: question };
+        const result = await cachedChatCompletion(
+          sentQuery,
+          {
+            provider,
+            model: settings.model,
+            system: settings.system,
+            searchContextSize: settings.searchContextSize,
+            searchFilters: resolveSearchFilters(settings.searchFilters, filters),
+            citations,
+            redaction,
+            authorityRules: authority.rules,
+            relatedQuestions: followUps ?? settings.relatedQuestions,
+            onProgress: createProgressReporter(extra),
+            signal: extra.signal,
+            timeoutMs: settings.timeoutMs,
+            maxRetries: config.maxRetries,
+            logger,
+            rateLimiter,
+            priority: settings.priority,
+          },
+          { cache, ttlMs: settings.cacheTtlMs, fresh },
+          sessionId ? sessions.history(sessionId) : [],
+        );
+        if (result.usage) {
+          usage.record({ tool: "answer", model: settings.model, sessionId, usage: result.usage });
+        }
+        if (!result.cachedAt) {
+          await history.add({
+            tool: "answer",
+            model: settings.model,
+            query: question,
+            answer: result.content,
+            sources: result.sources,
+          });
+        }
+        if (sessionId) {
+          sessions.append(sessionId, sentQuery, result.content);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatCompletionText(result) + formatAssumedVersions(dependencyContext),
+            },
+            ...reasoningContent(result, reasoning),
+          ],
+          structuredContent: {
+            answer: result.content,
+            ...parseAnswerSections(result.content),
+            sources: result.sources,
+            danglingCitations: result.danglingCitations,
+            cachedAt: result.cachedAt,
+            redactions: result.redactions,
+            followUps: result.relatedQuestions,
+            assumedVersions: dependencyContext,
+          },
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
     },
   );
 }
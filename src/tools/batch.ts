@@ -0,0 +1,208 @@
+import { z } from "zod";
+import { mergeCitations } from "../citations.js";
+import {
+  resolveBatchLimits,
+  resolveCitationOptions,
+  resolveRedactionSettings,
+  resolveSourceAuthoritySettings,
+  resolveToolSettings,
+  type ToolName,
+} from "../config.js";
+import { PerplexityError } from "../errors.js";
+import { mapWithConcurrency } from "../concurrency.js";
+import { formatCompletionText } from "../perplexity-client.js";
+import { cachedChatCompletion } from "../response-cache.js";
+import { formatRedactions } from "../redaction.js";
+import { Redaction, Source } from "../schemas.js";
+import { resolveSearchFilters, searchFilterInputShape } from "../search-filters.js";
+import { createBatchProgressReporter } from "./progress.js";
+import { toToolErrorResult } from "./tool-error.js";
+import type { ToolContext } from "./context.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+type BatchedTool = Extract<ToolName, "lookup" | "answer">;
+
+const DESCRIPTIONS: Record<BatchedTool, string> = {
+  lookup: `
+Runs several independent lookup queries in parallel (same behavior as lookup, one fact per query).
+Use instead of consecutive lookup calls when you need multiple unrelated facts, e.g. the signatures of three APIs.
+Each query gets its own answer or error; sources are merged into one numbered list shared by all answers.
+`.trim(),
+  answer: `
+Researches several independent questions in parallel (same behavior as answer, one decision per question).
+Use instead of consecutive answer calls when you need recommendations on multiple unrelated problems.
+Each question gets its own answer or error; sources are merged into one numbered list shared by all answers.
+`.trim(),
+};
+
+type ItemResult =
+  | {
+      question: string;
+      content: string;
+      sources: Source[];
+      danglingCitations?: number[];
+      cachedAt?: string;
+      redactions?: Redaction[];
+    }
+  | { question: string; error: string };
+
+/**
+ * Registers batch_lookup or batch_answer, which fan out the questions of one
+ * call through the same settings as the single-question tool.
+ */
+function registerBatchTool(
+  server: McpServer,
+  { config, provider, usage, history, cache, rateLimiter, logger }: ToolContext,
+  tool: BatchedTool,
+): void {
+  const settings = resolveToolSettings(config, tool);
+  const citations = resolveCitationOptions(config);
+  const redaction = resolveRedactionSettings(config);
+  const authority = resolveSourceAuthoritySettings(config);
+  const limits = resolveBatchLimits(config);
+  const name = `batch_${tool}`;
+
+  server.registerTool(
+    name,
+    {
+      description: DESCRIPTIONS[tool],
+      inputSchema: {
+        questions: z
+          .array(z.string().min(1))
+          .min(1)
+          .max(limits.maxItems)
+          .describe(`Independent questions to research (at most ${limits.maxItems})`),
+        fresh: z.boolean().optional().describe("Bypass the response cache and fetch new results"),
+        ...searchFilterInputShape,
+      },
+      outputSchema: {
+        results: z
+          .array(
+            z.object({
+              question: z.string(),
+              answer: z
+                .string()
+                .optional()
+                .describe("The answer, with [n] citations into the merged sources"),
+              error: z.string().optional().describe("Why this question failed"),
+              danglingCitations: z.array(z.number()).optional(),
+              cachedAt: z.string().optional(),
+              redactions: z
+                .array(Redaction)
+                .optional()
+                .describe("Sensitive data masked in the question before it was sent"),
+            }),
+          )
+          .describe("One entry per question, in input order"),
+        sources: z.array(Source).describe("Sources of all answers, de-duplicated by URL"),
+        failed: z.number().int().describe("Number of questions that failed"),
+      },
+    },
+    async ({ questions, fresh, ...filters }, extra) => {
+      let searchFilters;
+      try {
+        searchFilters = resolveSearchFilters(settings.searchFilters, filters);
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+      const reportProgress = createBatchProgressReporter(extra, questions.length);
+
+      const results = await mapWithConcurrency(
+        questions,
+        limits.concurrency,
+        async (question): Promise<ItemResult> => {
+          try {
+            await usage.assertWithinBudget();
+            const result = await cachedChatCompletion(
+              question,
+              {
+                provider,
+                model: settings.model,
+                system: settings.system,
+                searchContextSize: settings.searchContextSize,
+                searchFilters,
+                citations,
+                redaction,
+                authorityRules: authority.rules,
+                signal: extra.signal,
+                timeoutMs: settings.timeoutMs,
+                maxRetries: config.maxRetries,
+                logger,
+                rateLimiter,
+                priority: settings.priority,
+              },
+              { cache, ttlMs: settings.cacheTtlMs, fresh },
+            );
+            if (result.usage) {
+              usage.record({ tool: name, model: settings.model, usage: result.usage });
+            }
+            if (!result.cachedAt) {
+              await history.add({
+                tool: name,
+                model: settings.model,
+                query: question,
+                answer: result.content,
+                sources: result.sources,
+              });
+            }
+            reportProgress?.(`Finished: ${question}`);
+            return { question, ...result };
+          } catch (error) {
+            // One failed question must not fail the batch; anything else is a bug
+            if (!(error instanceof PerplexityError)) {
+              throw error;
+            }
+            reportProgress?.(`Failed: ${question}`);
+            return { question, error: `${error.name}: ${error.message}` };
+          }
+        },
+      );
+
+      const succeeded = results.filter(
+        (result): result is Extract<ItemResult, { content: string }> => "content" in result,
+      );
+      const merged = mergeCitations(succeeded);
+      const answers = new Map(succeeded.map((result, index) => [result, merged.contents[index]]));
+
+      const items = results.map((result) =>
+        "error" in result
+          ? result
+          : {
+              question: result.question,
+              answer: answers.get(result),
+              danglingCitations: result.danglingCitations,
+              cachedAt: result.cachedAt,
+              redactions: result.redactions,
+            },
+      );
+      const text = items
+        .map((item, index) => {
+          let body = "error" in item ? `Error: ${item.error}` : item.answer;
+          if ("redactions" in item && item.redactions) {
+            body = `${body}\n\nMasked before sending: ${formatRedactions(item.redactions)}`;
+          }
+          return `## ${index + 1}. ${item.question}\n\n${body}`;
+        })
+        .join("\n\n");
+
+      const failed = results.length - succeeded.length;
+      return {
+        content: [
+          { type: "text", text: formatCompletionText({ content: text, sources: merged.sources }) },
+        ],
+        structuredContent: { results: items, sources: merged.sources, failed },
+        isError: failed === results.length,
+      };
+    },
+  );
+}
+
+/**
+ * Registers the batch_lookup and batch_answer tools with the MCP server.
+ * Questions run concurrently up to the configured limit, and a failed
+ * question is reported in its own result instead of failing the batch.
+ */
+export function registerBatchTools(server: McpServer, context: ToolContext) {
+  registerBatchTool(server, context, "lookup");
+  registerBatchTool(server, context, "answer");
+}
@@ -0,0 +1,24 @@
+import type { Config } from "../config.js";
+import type { HistoryStore } from "../history-store.js";
+import type { Logger } from "../logging.js";
+import type { SearchProvider } from "../providers/provider.js";
+import type { RateLimiter } from "../rate-limiter.js";
+import type { ResponseCache } from "../response-cache.js";
+import type { ResearchJobs } from "../research-jobs.js";
+import type { SessionStore } from "../session-store.js";
+import type { UsageTracker } from "../usage-tracker.js";
+
+/**
+ * State shared by the tools of one MCP server instance
+ */
+export interface ToolContext {
+  config: Config;
+  provider: SearchProvider;
+  sessions: SessionStore;
+  history: HistoryStore;
+  cache: ResponseCache;
+  usage: UsageTracker;
+  rateLimiter: RateLimiter;
+  jobs: ResearchJobs;
+  logger: Logger;
+}
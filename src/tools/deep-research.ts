@@ -0,0 +1,265 @@
+import { z } from "zod";
+import {
+  type Config,
+  resolveCitationOptions,
+  resolveRedactionSettings,
+  resolveSourceAuthoritySettings,
+  resolveToolSettings,
+} from "../config.js";
+import { formatCompletionText, performChatCompletion } from "../perplexity-client.js";
+import type { JobRunner, ResearchJob } from "../research-jobs.js";
+import { redactMessages } from "../redaction.js";
+import { Redaction, Source } from "../schemas.js";
+import { resolveSearchFilters, searchFilterInputShape } from "../search-filters.js";
+import { toToolErrorResult } from "./tool-error.js";
+import type { ToolContext } from "./context.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+const jobIdInput = {
+  job_id: z.string().min(1).describe("The job ID returned by deep_research"),
+};
+
+const statusOutputShape = {
+  jobId: z.string(),
+  status: z.enum(["queued", "running", "completed", "failed", "cancelled"]),
+  question: z.string(),
+  createdAt: z.string(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  receivedCharacters: z.number().int().describe("Answer text received so far"),
+  restarts: z.number().int().describe("Times the job started over after a server restart"),
+  error: z.string().optional(),
+};
+
+/**
+ * Picks the status fields of a job for structured output.
+ */
+const toStatus = (job: ResearchJob) => ({
+  jobId: job.id,
+  status: job.status,
+  question: job.question,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt,
+  receivedCharacters: job.receivedCharacters,
+  restarts: job.restarts,
+  error: job.error,
+});
+
+/**
+ * Describes a job's status in one line.
+ */
+function describeStatus(job: ResearchJob): string {
+  switch (job.status) {
+    case "queued": {
+      return `Research job ${job.id} is queued.`;
+    }
+    case "running": {
+      return `Research job ${job.id} is running (${job.receivedCharacters} characters received since ${job.startedAt ?? job.createdAt}).`;
+    }
+    case "completed": {
+      return `Research job ${job.id} completed at ${job.finishedAt ?? job.updatedAt}. Call research_result to read the answer.`;
+    }
+    case "failed": {
+      return `Research job ${job.id} failed: ${job.error ?? "unknown error"}`;
+    }
+    case "cancelled": {
+      return `Research job ${job.id} was cancelled.`;
+    }
+  }
+}
+
+const unknownJob = (id: string): CallToolResult => ({
+  content: [{ type: "text", text: `Unknown research job "${id}". Jobs are kept for 7 days.` }],
+  isError: true,
+});
+
+/**
+ * Creates the runner that performs a deep research job and records its usage
+ * and history, like the answer tool does for a single call.
+ *
+ * @param {Config} config - The loaded configuration
+ * @param {Pick<ToolContext, "provider" | "usage" | "rateLimiter" | "history">} services - Services shared with the tools
+ * @returns {JobRunner} The runner for createResearchJobs()
+ */
+export function createDeepResearchRunner(
+  config: Config,
+  {
+    provider,
+    usage,
+    rateLimiter,
+    history,
+  }: Pick<ToolContext, "provider" | "usage" | "rateLimiter" | "history">,
+): JobRunner {
+  const settings = resolveToolSettings(config, "deepResearch");
+  const citations = resolveCitationOptions(config);
+  const redaction = resolveRedactionSettings(config);
+  const authority = resolveSourceAuthoritySettings(config);
+
+  return async (job, { signal, onProgress }) => {
+    const result = await performChatCompletion([{ role: "user", content: job.question }], {
+      provider,
+      model: job.model,
+      system: settings.system,
+      searchContextSize: settings.searchContextSize,
+      searchFilters: job.searchFilters,
+      citations,
+      redaction,
+      authorityRules: authority.rules,
+      onProgress,
+      signal,
+      timeoutMs: settings.timeoutMs,
+      maxRetries: config.maxRetries,
+      rateLimiter,
+      priority: settings.priority,
+    });
+    if (result.usage) {
+      usage.record({ tool: "deep_research", model: job.model, usage: result.usage });
+    }
+    await history.add({
+      tool: "deep_research",
+      model: job.model,
+      query: job.question,
+      answer: result.content,
+      sources: result.sources,
+    });
+    return result;
+  };
+}
+
+/**
+ * Registers the deep_research tool, which starts a background job, and the
+ * research_status, research_result and cancel_research tools for polling and
+ * stopping it. Jobs are shared by all sessions and survive server restarts.
+ */
+export function registerDeepResearchTools(server: McpServer, { config, usage, jobs }: ToolContext) {
+  const settings = resolveToolSettings(config, "deepResearch");
+  const redaction = resolveRedactionSettings(config);
+
+  server.registerTool(
+    "deep_research",
+    {
+      description: `
+Starts an exhaustive multi-source research job in the background and returns a job ID immediately.
+Use for questions too broad for answer, e.g. a full framework migration assessment or an ecosystem survey; jobs take several minutes.
+Poll research_status with the job ID, then call research_result for the report. Use cancel_research to stop a job.
+`.trim(),
+      inputSchema: {
+        question: z.string().min(1).describe("The research question, with all relevant context"),
+        ...searchFilterInputShape,
+      },
+      outputSchema: statusOutputShape,
+    },
+    async ({ question, ...filters }) => {
+      try {
+        await usage.assertWithinBudget();
+        // Fail now rather than in the background when strict redaction would block the job
+        redactMessages([{ role: "user", content: question }], redaction);
+        const job = await jobs.start({
+          question,
+          model: settings.model,
+          searchFilters: resolveSearchFilters(settings.searchFilters, filters),
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Started research job ${job.id}. It usually takes several minutes: poll research_status with job_id "${job.id}", then call research_result.`,
+            },
+          ],
+          structuredContent: toStatus(job),
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+    },
+  );
+
+  server.registerTool(
+    "research_status",
+    {
+      description: "Reports the status and progress of a deep_research job.",
+      inputSchema: jobIdInput,
+      outputSchema: statusOutputShape,
+    },
+    async ({ job_id: jobId }) => {
+      const job = await jobs.get(jobId);
+      if (!job) {
+        return unknownJob(jobId);
+      }
+      return {
+        content: [{ type: "text", text: describeStatus(job) }],
+        structuredContent: toStatus(job),
+      };
+    },
+  );
+
+  server.registerTool(
+    "research_result",
+    {
+      description:
+        "Returns the report of a completed deep_research job with its sources, or its status if it has not completed.",
+      inputSchema: jobIdInput,
+      outputSchema: {
+        ...statusOutputShape,
+        answer: z.string().optional().describe("The report, with inline [n] citations"),
+        sources: z.array(Source).optional().describe("Sources referenced by the [n] citations"),
+        danglingCitations: z
+          .array(z.number())
+          .optional()
+          .describe("Citation numbers the model used that matched no source"),
+        redactions: z
+          .array(Redaction)
+          .optional()
+          .describe("Sensitive data masked in the question before it was sent"),
+      },
+    },
+    async ({ job_id: jobId }) => {
+      const job = await jobs.get(jobId);
+      if (!job) {
+        return unknownJob(jobId);
+      }
+      if (!job.result) {
+        return {
+          content: [{ type: "text", text: describeStatus(job) }],
+          structuredContent: toStatus(job),
+          isError: job.status === "failed" || job.status === "cancelled",
+        };
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatCompletionText({
+              content: job.result.answer,
+              sources: job.result.sources,
+              danglingCitations: job.result.danglingCitations,
+              redactions: job.result.redactions,
+            }),
+          },
+        ],
+        structuredContent: { ...toStatus(job), ...job.result },
+      };
+    },
+  );
+
+  server.registerTool(
+    "cancel_research",
+    {
+      description: "Cancels a queued or running deep_research job.",
+      inputSchema: jobIdInput,
+      outputSchema: statusOutputShape,
+    },
+    async ({ job_id: jobId }) => {
+      const job = await jobs.cancel(jobId);
+      if (!job) {
+        return unknownJob(jobId);
+      }
+      return {
+        content: [{ type: "text", text: describeStatus(job) }],
+        structuredContent: toStatus(job),
+      };
+    },
+  );
+}
@@ -1,13 +1,91 @@
 import { z } from "zod";
-import { performChatCompletion } from "../perplexity-client.js";
-import { LOOKUP_SYSTEM_PROMPT } from "../prompts.js";
+import {
+  resolveCitationOptions,
+  resolveReasoningSettings,
+  resolveRedactionSettings,
+  resolveSourceAuthoritySettings,
+  resolveToolSettings,
+} from "../config.js";
+import { PerplexityError } from "../errors.js";
+import type { Logger } from "../logging.js";
+import { formatCompletionText } from "../perplexity-client.js";
+import { cachedChatCompletion } from "../response-cache.js";
+import {
+  type ChatCompletionResult,
+  DependencyContext,
+  Redaction,
+  type SearchFilters,
+  Source,
+} from "../schemas.js";
+import { resolveSearchFilters, searchFilterInputShape } from "../search-filters.js";
+import { buildAuthorityRetry, isLowAuthority } from "../source-authority.js";
+import { createProgressReporter } from "./progress.js";
+import { reasoningContent } from "./reasoning.js";
+import { toToolErrorResult } from "./tool-error.js";
+import { formatAssumedVersions, withDependencyContext } from "./workspace.js";
+import type { ToolContext } from "./context.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
+/**
+ * Schema for the report of a retry after a lookup returned only community sources
+ */
+const AuthorityRetryReport = z.object({
+  excludedDomains: z.array(z.string()).describe("Domains excluded for the retry"),
+  improved: z
+    .boolean()
+    .describe("Whether the retry found a stronger source; if not, the first answer is kept"),
+});
+type AuthorityRetryReport = z.infer<typeof AuthorityRetryReport>;
+
+/**
+ * Runs the stricter retry. A failed retry is logged and reported as
+ * undefined, so the first answer is still returned; cancellation is not
+ * swallowed.
+ */
+async function retryWithStricterFilters(
+  attempt: () => Promise<ChatCompletionResult>,
+  { signal, logger }: { signal: AbortSignal; logger: Logger },
+): Promise<ChatCompletionResult | undefined> {
+  try {
+    return await attempt();
+  } catch (error) {
+    if (!(error instanceof PerplexityError) || signal.aborted) {
+      throw error;
+    }
+    logger.warning("Low-authority retry failed, keeping the first answer", {
+      error: error.message,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Formats the retry note shown after the Sources list.
+ */
+function formatAuthorityRetry(report: AuthorityRetryReport | undefined): string {
+  if (!report) {
+    return "";
+  }
+  const outcome = report.improved
+    ? "found stronger sources"
+    : "no stronger sources found, first answer kept";
+  return `\nRetried with stricter domain filter (excluded: ${report.excludedDomains.join(", ")}): ${outcome}\n`;
+}
+
 /**
  * Registers the lookup tool with the MCP server.
  * Fetches precise, source-backed facts from official sources.
  */
-export function registerLookupTool(server: McpServer) {
+export function registerLookupTool(
+  server: McpServer,
+  { config, provider, sessions, usage, history, cache, rateLimiter, logger }: ToolContext,
+) {
+  const settings = resolveToolSettings(config, "lookup");
+  const citations = resolveCitationOptions(config);
+  const redaction = resolveRedactionSettings(config);
+  const authority = resolveSourceAuthoritySettings(config);
+  const reasoning = resolveReasoningSettings(config);
+
   server.registerTool(
     "lookup",
     {
@@ -16,19 +94,152 @@ Fetches precise, source-backed facts from official sources.
 Use for API syntax/params, config keys/defaults, CLI flags, runtime compatibility, and package metadata (types, ESM/CJS, side-effects).
 Returns short, factual answers. No recommendations or comparisons.
 Examples: "What's the default timeout for fetch()?", "What parameters does useState accept?", "Show me how Zod validates email addresses"
-One question per call—split combined requests into separate queries.
+One question per call—split combined requests into separate queries, or use batch_lookup for independent ones.
 `.trim(),
       inputSchema: {
         query: z.string().describe("The documentation query to look up"),
+        fresh: z.boolean().optional().describe("Bypass the response cache and fetch a new result"),
+        follow_ups: z
+          .boolean()
+          .optional()
+          .describe("Return suggested follow-up questions (defaults to the configured setting)"),
+        session_id: z
+          .string()
+          .min(1)
+          .max(128)
+          .optional()
+          .describe("Continue a research session: earlier turns with this ID are sent as context"),
+        ...searchFilterInputShape,
+      },
+      outputSchema: {
+        answer: z.string().describe("The fact, with inline [n] citations"),
+        sources: z.array(Source).describe("Sources referenced by the [n] citations"),
+        danglingCitations: z
+          .array(z.number())
+          .optional()
+          .describe("Citation numbers the model used that matched no source"),
+        cachedAt: z
+          .string()
+          .optional()
+          .describe("Original retrieval time, present when served from cache"),
+        redactions: z
+          .array(Redaction)
+          .optional()
+          .describe("Sensitive data masked in the question before it was sent"),
+        followUps: z
+          .array(z.string())
+          .optional()
+          .describe("Suggested next questions, each usable as-is in another lookup or answer call"),
+        authorityRetry: AuthorityRetryReport.optional().describe(
+          "Present when every source was community-tier and the lookup was retried once",
+        ),
+        assumedVersions: DependencyContext.optional().describe(
+          "Installed package versions and Node engine sent with the question",
+        ),
       },
     },
-    async ({ query }) => {
-      const result = await performChatCompletion([{ role: "user", content: query }], {
-        model: "sonar-pro",
-        system: LOOKUP_SYSTEM_PROMPT,
-        searchContextSize: "medium",
-      });
-      return { content: [{ type: "text", text: result }] };
+    async ({ query, fresh, follow_ups: followUps, session_id: sessionId, ...filters }, extra) => {
+      try {
+        await usage.assertWithinBudget(sessionId);
+        const { query: sentQuery, dependencyContext } = config.dependencyContext
+          ? await withDependencyContext(server, query)
+          : { query };
+        const searchFilters = resolveSearchFilters(settings.searchFilters, filters);
+        const complete = (attemptFilters: SearchFilters) =>
+          cachedChatCompletion(
+            sentQuery,
+            {
+              provider,
+              model: settings.model,
+              system: settings.system,
+              searchContextSize: settings.searchContextSize,
+              searchFilters: attemptFilters,
+              citations,
+              redaction,
+              authorityRules: authority.rules,
+              relatedQuestions: followUps ?? settings.relatedQuestions,
+              onProgress: createProgressReporter(extra),
+              signal: extra.signal,
+              timeoutMs: settings.timeoutMs,
+              maxRetries: config.maxRetries,
+              logger,
+              rateLimiter,
+              priority: settings.priority,
+            },
+            { cache, ttlMs: settings.cacheTtlMs, fresh },
+            sessionId ? sessions.history(sessionId) : [],
+          );
+        const recordUsage = (attempt: ChatCompletionResult) => {
+          if (attempt.usage) {
+            usage.record({
+              tool: "lookup",
+              model: settings.model,
+              sessionId,
+              usage: attempt.usage,
+            });
+          }
+        };
+
+        let result = await complete(searchFilters);
+        recordUsage(result);
+        let authorityRetry: AuthorityRetryReport | undefined;
+        const retry =
+          authority.retryLowAuthority && isLowAuthority(result.sources)
+            ? buildAuthorityRetry(searchFilters, result.sources)
+            : undefined;
+        if (retry) {
+          const retried = await retryWithStricterFilters(() => complete(retry.filters), {
+            signal: extra.signal,
+            logger,
+          });
+          if (retried) {
+            recordUsage(retried);
+          }
+          const improved =
+            retried !== undefined && retried.sources.some((source) => source.tier !== "community");
+          if (improved) {
+            result = retried;
+          }
+          authorityRetry = { excludedDomains: retry.excludedDomains, improved };
+        }
+
+        if (!result.cachedAt) {
+          await history.add({
+            tool: "lookup",
+            model: settings.model,
+            query: query,
+            answer: result.content,
+            sources: result.sources,
+          });
+        }
+        if (sessionId) {
+          sessions.append(sessionId, sentQuery, result.content);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                formatCompletionText(result) +
+                formatAuthorityRetry(authorityRetry) +
+                formatAssumedVersions(dependencyContext),
+            },
+            ...reasoningContent(result, reasoning),
+          ],
+          structuredContent: {
+            answer: result.content,
+            sources: result.sources,
+            danglingCitations: result.danglingCitations,
+            cachedAt: result.cachedAt,
+            redactions: result.redactions,
+            followUps: result.relatedQuestions,
+            authorityRetry,
+            assumedVersions: dependencyContext,
+          },
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
     },
   );
 }
@@ -0,0 +1,68 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Extra request context passed by the MCP server to tool handlers
+ */
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Creates a callback that forwards streamed text as MCP progress notifications.
+ * Returns undefined when the caller did not supply a progress token, so no
+ * notifications are sent to clients that did not ask for them.
+ *
+ * @param {ToolExtra} extra - The request context of the current tool call
+ * @returns {((text: string) => void) | undefined} The progress callback, if requested
+ */
+export function createProgressReporter(extra: ToolExtra): ((text: string) => void) | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  // Progress must increase monotonically; use the number of characters received
+  let progress = 0;
+  return (text) => {
+    progress += text.length;
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, message: text },
+      })
+      .catch(() => {
+        // Progress is best-effort; a dropped notification must not fail the tool call
+      });
+  };
+}
+
+/**
+ * Creates a callback that reports completed batch items as MCP progress
+ * notifications, with the item count as total. Returns undefined when the
+ * caller did not supply a progress token.
+ *
+ * @param {ToolExtra} extra - The request context of the current tool call
+ * @param {number} total - Number of items in the batch
+ * @returns {((message: string) => void) | undefined} Callback to invoke once per finished item
+ */
+export function createBatchProgressReporter(
+  extra: ToolExtra,
+  total: number,
+): ((message: string) => void) | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let completed = 0;
+  return (message) => {
+    completed += 1;
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: completed, total, message },
+      })
+      .catch(() => {
+        // Progress is best-effort; a dropped notification must not fail the tool call
+      });
+  };
+}
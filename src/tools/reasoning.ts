@@ -0,0 +1,31 @@
+import type { TextContent } from "@modelcontextprotocol/sdk/types.js";
+import type { ReasoningSettings } from "../config.js";
+import type { ChatCompletionResult } from "../schemas.js";
+import { condenseReasoning } from "../strip-think-content.js";
+
+/**
+ * Builds the optional reasoning content block for a tool result. The block is
+ * annotated for the assistant audience with a low priority, so clients can
+ * keep it out of what they show the user while the agent can still weigh how
+ * firmly the answer was reached. Returns no block when disclosure is off or
+ * the model did not reason.
+ *
+ * @param {ChatCompletionResult} result - The completion, with its reasoning if any
+ * @param {ReasoningSettings} settings - Disclosure switch and length limit
+ * @returns {TextContent[]} Zero or one content blocks, to spread after the answer
+ */
+export function reasoningContent(
+  result: ChatCompletionResult,
+  settings: ReasoningSettings,
+): TextContent[] {
+  if (!settings.disclose || !result.reasoning) {
+    return [];
+  }
+  return [
+    {
+      type: "text",
+      text: `Model reasoning (condensed):\n${condenseReasoning(result.reasoning, settings.maxLength)}`,
+      annotations: { audience: ["assistant"], priority: 0.2 },
+    },
+  ];
+}
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import type { ToolContext } from "./context.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * Registers the list_sessions and reset_session tools with the MCP server.
+ * Research sessions are created implicitly by passing session_id to lookup or answer.
+ */
+export function registerSessionTools(server: McpServer, { sessions }: ToolContext) {
+  server.registerTool(
+    "list_sessions",
+    {
+      description: `
+Lists active research sessions created by passing session_id to lookup or answer.
+Returns each session's ID, number of turns, first question, and last use time.
+`.trim(),
+      outputSchema: {
+        sessions: z.array(
+          z.object({
+            id: z.string(),
+            turns: z.number().int(),
+            firstQuestion: z.string(),
+            lastUsedAt: z.string(),
+          }),
+        ),
+      },
+    },
+    () => {
+      const summaries = sessions.list();
+      const text =
+        summaries.length === 0
+          ? "No active research sessions."
+          : summaries
+              .map(
+                (session) =>
+                  `${session.id} — ${session.turns} turn(s), last used ${session.lastUsedAt}: ${session.firstQuestion}`,
+              )
+              .join("\n");
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: { sessions: summaries },
+      };
+    },
+  );
+
+  server.registerTool(
+    "reset_session",
+    {
+      description: `
+Forgets a research session so the next call with its session_id starts fresh.
+Omit session_id to reset all sessions.
+`.trim(),
+      inputSchema: {
+        session_id: z.string().min(1).optional().describe("The session to reset; omit for all"),
+      },
+      outputSchema: {
+        removed: z.number().int().describe("Number of sessions removed"),
+      },
+    },
+    ({ session_id: sessionId }) => {
+      const removed = sessions.reset(sessionId);
+      let text = `Reset research session "${sessionId}".`;
+      if (sessionId === undefined) {
+        text = `Reset ${removed} research session(s).`;
+      } else if (removed === 0) {
+        text = `No active research session "${sessionId}".`;
+      }
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: { removed },
+      };
+    },
+  );
+}
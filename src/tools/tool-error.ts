@@ -0,0 +1,20 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { PerplexityError } from "../errors.js";
+
+/**
+ * Converts a Perplexity API failure into an isError tool result so the agent
+ * sees a readable message (and can decide whether to retry) instead of a
+ * protocol-level error. Any other error, including cancellation, is rethrown.
+ *
+ * @param {unknown} error - The error thrown by the tool handler
+ * @returns {CallToolResult} A tool result flagged with isError
+ */
+export function toToolErrorResult(error: unknown): CallToolResult {
+  if (!(error instanceof PerplexityError)) {
+    throw error;
+  }
+  return {
+    content: [{ type: "text", text: `${error.name}: ${error.message}` }],
+    isError: true,
+  };
+}
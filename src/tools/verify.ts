@@ -0,0 +1,151 @@
+import { z } from "zod";
+import {
+  resolveCitationOptions,
+  resolveReasoningSettings,
+  resolveRedactionSettings,
+  resolveSourceAuthoritySettings,
+  resolveToolSettings,
+} from "../config.js";
+import { formatCompletionText } from "../perplexity-client.js";
+import { cachedChatCompletion } from "../response-cache.js";
+import { DependencyContext, Redaction, Source } from "../schemas.js";
+import { resolveSearchFilters, searchFilterInputShape } from "../search-filters.js";
+import { Confidence, parseVerification, Verdict } from "../verdict.js";
+import { createProgressReporter } from "./progress.js";
+import { reasoningContent } from "./reasoning.js";
+import { toToolErrorResult } from "./tool-error.js";
+import { formatAssumedVersions, withDependencyContext } from "./workspace.js";
+import type { ToolContext } from "./context.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * Builds the question sent for a claim and its optional code snippet.
+ */
+function buildClaimQuery(claim: string, code: string | undefined): string {
+  if (!code) {
+    return `Verify this claim: ${claim}`;
+  }
+  return `Verify this claim: ${claim}\n\nCode the claim is about:\n\`\`\`\n${code}\n\`\`\``;
+}
+
+/**
+ * Registers the verify tool with the MCP server.
+ * Checks one claim against current sources and returns a verdict agents can branch on.
+ */
+export function registerVerifyTool(
+  server: McpServer,
+  { config, provider, usage, history, cache, rateLimiter, logger }: ToolContext,
+) {
+  const settings = resolveToolSettings(config, "verify");
+  const citations = resolveCitationOptions(config);
+  const redaction = resolveRedactionSettings(config);
+  const authority = resolveSourceAuthoritySettings(config);
+  const reasoning = resolveReasoningSettings(config);
+
+  server.registerTool(
+    "verify",
+    {
+      description: `
+Fact-checks one technical claim, optionally with the code snippet it is about, against current sources.
+Use before relying on an API detail you remember but have not confirmed, e.g. a default value, a signature or a flag.
+Returns a verdict (supported, refuted, outdated or unverifiable), a confidence, the corrected fact for refuted or outdated claims, and sources.
+Examples: "fs.rm() without recursive deletes directories", "React 19 still supports defaultProps on function components"
+One claim per call.
+`.trim(),
+      inputSchema: {
+        claim: z.string().min(1).describe("The statement to check, as specific as possible"),
+        code: z.string().optional().describe("Code snippet the claim is about"),
+        fresh: z.boolean().optional().describe("Bypass the response cache and fetch a new result"),
+        ...searchFilterInputShape,
+      },
+      outputSchema: {
+        verdict: Verdict.describe("outdated: correct for an earlier version only"),
+        confidence: Confidence,
+        correctedFact: z
+          .string()
+          .optional()
+          .describe("The accurate statement, present for refuted and outdated claims"),
+        evidence: z.string().optional().describe("What the deciding sources say"),
+        answer: z.string().describe("The full verification text, with inline [n] citations"),
+        sources: z.array(Source).describe("Sources behind the verdict"),
+        danglingCitations: z
+          .array(z.number())
+          .optional()
+          .describe("Citation numbers the model used that matched no source"),
+        cachedAt: z
+          .string()
+          .optional()
+          .describe("Original retrieval time, present when served from cache"),
+        redactions: z
+          .array(Redaction)
+          .optional()
+          .describe("Sensitive data masked in the claim before it was sent"),
+        assumedVersions: DependencyContext.optional().describe(
+          "Installed package versions and Node engine sent with the claim",
+        ),
+      },
+    },
+    async ({ claim, code, fresh, ...filters }, extra) => {
+      try {
+        await usage.assertWithinBudget();
+        const query = buildClaimQuery(claim, code);
+        const { query: sentQuery, dependencyContext } = config.dependencyContext
+          ? await withDependencyContext(server, query)
+          : { query };
+        const result = await cachedChatCompletion(
+          sentQuery,
+          {
+            provider,
+            model: settings.model,
+            system: settings.system,
+            searchContextSize: settings.searchContextSize,
+            searchFilters: resolveSearchFilters(settings.searchFilters, filters),
+            citations,
+            redaction,
+            authorityRules: authority.rules,
+            onProgress: createProgressReporter(extra),
+            signal: extra.signal,
+            timeoutMs: settings.timeoutMs,
+            maxRetries: config.maxRetries,
+            logger,
+            rateLimiter,
+            priority: settings.priority,
+          },
+          { cache, ttlMs: settings.cacheTtlMs, fresh },
+        );
+        if (result.usage) {
+          usage.record({ tool: "verify", model: settings.model, usage: result.usage });
+        }
+        if (!result.cachedAt) {
+          await history.add({
+            tool: "verify",
+            model: settings.model,
+            query,
+            answer: result.content,
+            sources: result.sources,
+          });
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatCompletionText(result) + formatAssumedVersions(dependencyContext),
+            },
+            ...reasoningContent(result, reasoning),
+          ],
+          structuredContent: {
+            ...parseVerification(result.content),
+            answer: result.content,
+            sources: result.sources,
+            danglingCitations: result.danglingCitations,
+            cachedAt: result.cachedAt,
+            redactions: result.redactions,
+            assumedVersions: dependencyContext,
+          },
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+    },
+  );
+}
@@ -0,0 +1,71 @@
+import { fileURLToPath } from "node:url";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { DependencyContext } from "../schemas.js";
+import {
+  describeDependencyContext,
+  findMentionedDependencies,
+  readWorkspaceDependencies,
+} from "../workspace-dependencies.js";
+
+const ROOTS_TIMEOUT_MS = 5000;
+
+/**
+ * Lists the client's file:// workspace roots as directories. Falls back to the
+ * server's working directory when the client does not support roots or the
+ * request fails.
+ */
+async function listWorkspaceDirectories(server: McpServer): Promise<string[]> {
+  if (!server.server.getClientCapabilities()?.roots) {
+    return [process.cwd()];
+  }
+  try {
+    const { roots } = await server.server.listRoots(undefined, { timeout: ROOTS_TIMEOUT_MS });
+    return roots
+      .filter((root) => root.uri.startsWith("file:"))
+      .map((root) => fileURLToPath(root.uri));
+  } catch {
+    return [process.cwd()];
+  }
+}
+
+/**
+ * Adds the installed versions of the packages a question mentions, and the
+ * Node engine, to the question sent to the API. Returns the question
+ * unchanged when no workspace dependency applies.
+ *
+ * @param {McpServer} server - The server, used to ask the client for its roots
+ * @param {string} question - The user's question
+ * @returns {Promise<{ query: string; dependencyContext?: DependencyContext }>} The query to send and the assumed versions
+ */
+export async function withDependencyContext(
+  server: McpServer,
+  question: string,
+): Promise<{ query: string; dependencyContext?: DependencyContext }> {
+  const directories = await listWorkspaceDirectories(server);
+  const workspaces = await Promise.all(directories.map(readWorkspaceDependencies));
+  const dependencyContext = findMentionedDependencies(
+    question,
+    workspaces.filter((workspace) => workspace !== undefined),
+  );
+  if (!dependencyContext) {
+    return { query: question };
+  }
+
+  const query = `${question}
+
+Project context: ${describeDependencyContext(dependencyContext)}.
+Answer for these installed versions and state which versions you assumed.`;
+  return { query, dependencyContext };
+}
+
+/**
+ * Renders the assumed versions as a closing note for the text result.
+ *
+ * @param {DependencyContext | undefined} dependencyContext - The versions sent with the question
+ * @returns {string} The note, or an empty string when no versions were assumed
+ */
+export function formatAssumedVersions(dependencyContext: DependencyContext | undefined): string {
+  return dependencyContext
+    ? `\nAssumed versions: ${describeDependencyContext(dependencyContext)}\n`
+    : "";
+}
@@ -0,0 +1,138 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { BudgetExceededError } from "./errors.ts";
+import { createUsageTracker, defaultUsageDirectory, estimateCost } from "./usage-tracker.ts";
+
+const prices = {
+  "sonar-pro": { inputPerMillionTokens: 3, outputPerMillionTokens: 15, perThousandRequests: 10 },
+};
+
+const usage = { prompt_tokens: 1_000_000, completion_tokens: 100_000, num_search_queries: 1 };
+
+/** A clock stopped at the given time */
+const clock = (time: string) => () => Date.parse(time);
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "perplexity-usage-"));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("estimateCost", () => {
+  it("should price tokens and the request fee", () => {
+    expect(estimateCost(usage, prices["sonar-pro"])).toBeCloseTo(3 + 1.5 + 0.01);
+  });
+
+  it("should prefer the cost reported by the API", () => {
+    expect(estimateCost({ ...usage, cost: { total_cost: 0.42 } }, prices["sonar-pro"])).toBe(0.42);
+  });
+
+  it("should count unpriced models as free", () => {
+    expect(estimateCost(usage, undefined)).toBe(0);
+  });
+});
+
+describe("createUsageTracker", () => {
+  it("should accumulate totals per tool and per session", async () => {
+    const tracker = createUsageTracker(directory, { prices });
+    tracker.record({ tool: "lookup", model: "sonar-pro", sessionId: "s1", usage });
+    tracker.record({ tool: "answer", model: "sonar-pro", usage });
+    tracker.record({ tool: "answer", model: "custom-model", sessionId: "s1", usage });
+
+    const report = await tracker.report();
+    expect(report.total).toMatchObject({
+      requests: 3,
+      promptTokens: 3_000_000,
+      completionTokens: 300_000,
+      searchQueries: 3,
+      costUsd: 9.02,
+    });
+    expect(report.byTool.answer).toMatchObject({ requests: 2, costUsd: 4.51 });
+    expect(report.bySession).toEqual({
+      s1: expect.objectContaining({ requests: 2, costUsd: 4.51 }),
+    });
+    expect(report.unpricedModels).toEqual(["custom-model"]);
+  });
+
+  it("should refuse calls once the daily budget is used up and reset the next day", async () => {
+    let time = Date.parse("2025-01-01T12:00:00Z");
+    const tracker = createUsageTracker(directory, { prices, dailyBudgetUsd: 4 }, () => time);
+
+    await tracker.assertWithinBudget();
+    tracker.record({ tool: "lookup", model: "sonar-pro", usage });
+    await expect(tracker.assertWithinBudget()).rejects.toThrow(BudgetExceededError);
+    await expect(tracker.assertWithinBudget()).rejects.toThrow(
+      /Daily budget of \$4\.0000 reached/u,
+    );
+
+    time = Date.parse("2025-01-02T00:00:01Z");
+    await expect(tracker.assertWithinBudget()).resolves.toBeUndefined();
+    expect((await tracker.report()).today).toMatchObject({ date: "2025-01-02", requests: 0 });
+    expect((await tracker.report()).total.requests).toBe(1);
+  });
+
+  it("should enforce the daily budget across restarts and processes", async () => {
+    const now = clock("2025-01-01T12:00:00Z");
+    const settings = { prices, dailyBudgetUsd: 4 };
+    const previous = createUsageTracker(directory, settings, now);
+    previous.record({ tool: "lookup", model: "sonar-pro", usage });
+    // Reading waits for pending ledger writes
+    await previous.report();
+
+    // A second tracker over the same directory, as after a restart or in another process
+    const tracker = createUsageTracker(directory, settings, now);
+    await expect(tracker.assertWithinBudget()).rejects.toThrow(BudgetExceededError);
+    expect((await tracker.report()).today).toMatchObject({ requests: 1, costUsd: 4.51 });
+    expect(await readdir(directory)).toEqual(["2025-01-01.jsonl"]);
+  });
+
+  it("should skip unreadable ledger lines and delete ledgers older than 7 days", async () => {
+    const now = clock("2025-01-10T12:00:00Z");
+    await writeFile(path.join(directory, "2025-01-02.jsonl"), "{}\n");
+    await writeFile(path.join(directory, "2025-01-10.jsonl"), '{"tool":"lookup"}\n{"tru');
+    const tracker = createUsageTracker(directory, { prices }, now);
+
+    tracker.record({ tool: "lookup", model: "sonar-pro", usage });
+
+    expect((await tracker.report()).today).toMatchObject({ requests: 1 });
+    expect(await readdir(directory)).toEqual(["2025-01-10.jsonl"]);
+  });
+
+  it("should refuse calls only for the session over its budget", async () => {
+    const tracker = createUsageTracker(directory, { prices, sessionBudgetUsd: 1 });
+    tracker.record({ tool: "answer", model: "sonar-pro", sessionId: "s1", usage });
+
+    await expect(tracker.assertWithinBudget("s1")).rejects.toThrow(/Session budget .* "s1"/u);
+    await expect(tracker.assertWithinBudget("s2")).resolves.toBeUndefined();
+    await expect(tracker.assertWithinBudget()).resolves.toBeUndefined();
+  });
+
+  it("should keep research sessions private to each client", async () => {
+    const shared = createUsageTracker(directory, { prices, sessionBudgetUsd: 1 });
+    const first = shared.forClient();
+    const second = shared.forClient();
+    first.record({ tool: "answer", model: "sonar-pro", sessionId: "s1", usage });
+
+    await expect(first.assertWithinBudget("s1")).rejects.toThrow(BudgetExceededError);
+    await expect(second.assertWithinBudget("s1")).resolves.toBeUndefined();
+    expect((await second.report()).bySession).toEqual({});
+    expect((await second.report()).total.requests).toBe(1);
+  });
+});
+
+describe("defaultUsageDirectory", () => {
+  it("should prefer PERPLEXITY_USAGE_DIR, then XDG_STATE_HOME", () => {
+    expect(
+      defaultUsageDirectory({ PERPLEXITY_USAGE_DIR: "/tmp/usage", XDG_STATE_HOME: "/state" }),
+    ).toBe("/tmp/usage");
+    expect(defaultUsageDirectory({ XDG_STATE_HOME: "/state" })).toBe(
+      path.join("/state", "perplexity-agent-mcp", "usage"),
+    );
+  });
+});
@@ -0,0 +1,326 @@
+import { appendFile, mkdir, readdir, readFile, rm } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { BudgetExceededError } from "./errors.js";
+import type { Usage } from "./schemas.js";
+
+/** Daily ledgers older than this are deleted when the first call of a day is recorded */
+const RETENTION_DAYS = 7;
+
+const LEDGER_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/u;
+
+/**
+ * Price of a model in USD, used to estimate cost when the API reports none
+ */
+export interface ModelPrice {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  /** Flat request fee per 1000 requests */
+  perThousandRequests: number;
+}
+
+/**
+ * Price table and spending caps for the usage tracker
+ */
+export interface UsageSettings {
+  prices: Record<string, ModelPrice>;
+  /** Estimated spend per UTC day after which tools refuse new calls */
+  dailyBudgetUsd?: number;
+  /** Estimated spend per research session after which calls with its session_id are refused */
+  sessionBudgetUsd?: number;
+}
+
+/**
+ * Accumulated usage for one scope (all calls, a tool, a session or a day)
+ */
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  searchQueries: number;
+  costUsd: number;
+}
+
+/**
+ * Snapshot of the tracked usage, as exposed by the perplexity://usage resource
+ */
+export interface UsageReport {
+  since: string;
+  total: UsageTotals;
+  today: UsageTotals & { date: string };
+  byTool: Record<string, UsageTotals>;
+  bySession: Record<string, UsageTotals>;
+  budgets: { dailyUsd?: number; sessionUsd?: number };
+  /** Models used without a price entry; their cost is counted as 0 */
+  unpricedModels: string[];
+}
+
+/**
+ * One completed API call to account for
+ */
+export interface UsageRecord {
+  tool: string;
+  model: string;
+  sessionId?: string;
+  usage: Usage;
+}
+
+/**
+ * Usage ledger with budget enforcement
+ */
+export interface UsageTracker {
+  /** Throws BudgetExceededError when the daily or the session budget is used up */
+  assertWithinBudget(sessionId?: string): Promise<void>;
+  record(entry: UsageRecord): void;
+  report(): Promise<UsageReport>;
+  /** A tracker sharing all totals except research sessions, which stay private to one MCP client session */
+  forClient(): UsageTracker;
+}
+
+/**
+ * Schema for one line of a daily ledger file
+ */
+const LedgerEntry = z.object({
+  tool: z.string(),
+  model: z.string(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  searchQueries: z.number(),
+  costUsd: z.number(),
+});
+type LedgerEntry = z.infer<typeof LedgerEntry>;
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  searchQueries: 0,
+  costUsd: 0,
+});
+
+/**
+ * Rounds a USD amount to a millionth of a dollar for display.
+ */
+const roundUsd = (value: number) => Math.round(value * 1_000_000) / 1_000_000;
+
+const roundTotals = (totals: UsageTotals): UsageTotals => ({
+  ...totals,
+  costUsd: roundUsd(totals.costUsd),
+});
+
+const formatUsd = (value: number) => `$${value.toFixed(4)}`;
+
+/**
+ * Estimates the cost of one call. A cost reported by the API wins; otherwise
+ * tokens and the request fee are priced from the table. Unpriced models cost 0.
+ *
+ * @param {Usage} usage - Usage reported for the call
+ * @param {ModelPrice | undefined} price - Price of the model, if known
+ * @returns {number} Estimated cost in USD
+ */
+export function estimateCost(usage: Usage, price: ModelPrice | undefined): number {
+  if (usage.cost) {
+    return usage.cost.total_cost;
+  }
+  if (!price) {
+    return 0;
+  }
+  return (
+    (usage.prompt_tokens * price.inputPerMillionTokens) / 1_000_000 +
+    (usage.completion_tokens * price.outputPerMillionTokens) / 1_000_000 +
+    price.perThousandRequests / 1000
+  );
+}
+
+const add = (totals: UsageTotals, entry: LedgerEntry) => {
+  totals.requests += 1;
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.searchQueries += entry.searchQueries;
+  totals.costUsd += entry.costUsd;
+};
+
+/**
+ * Creates a usage tracker that accumulates totals overall, per tool, per
+ * research session and per UTC day.
+ *
+ * Every call is also appended to a ledger file per UTC day in the directory,
+ * and the daily budget is checked against that ledger. The daily cap
+ * therefore holds across restarts and across all server processes sharing
+ * the directory, such as one stdio server per editor window. Overall, per-tool
+ * and per-session totals cover the current process only. Session totals are
+ * kept per tracker returned by forClient(), so HTTP clients that pick the same
+ * session_id do not share a session budget.
+ *
+ * @param {string} directory - Directory for the daily ledgers (created on first write)
+ * @param {UsageSettings} settings - Price table and budget caps
+ * @param {() => number} now - Clock, injectable for tests
+ * @returns {UsageTracker} The tracker
+ */
+export function createUsageTracker(
+  directory: string,
+  settings: UsageSettings,
+  now: () => number = Date.now,
+): UsageTracker {
+  const since = new Date(now()).toISOString();
+  const total = emptyTotals();
+  const byTool = new Map<string, UsageTotals>();
+  const unpricedModels = new Set<string>();
+  // This process's calls today, in case the ledger cannot be written
+  let today = { date: "", totals: emptyTotals() };
+  let appends: Promise<void> = Promise.resolve();
+  let prunedOn = "";
+
+  const currentDate = () => new Date(now()).toISOString().slice(0, 10);
+  const ledgerPath = (date: string) => path.join(directory, `${date}.jsonl`);
+
+  const currentDay = () => {
+    const date = currentDate();
+    if (today.date !== date) {
+      today = { date, totals: emptyTotals() };
+    }
+    return today;
+  };
+
+  const prune = async (date: string) => {
+    const cutoff = new Date(Date.parse(date) - RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+    const files = await readdir(directory);
+    await Promise.all(
+      files
+        .filter((file) => (LEDGER_PATTERN.exec(file)?.[1] ?? date) < cutoff)
+        .map((file) => rm(path.join(directory, file), { force: true })),
+    );
+  };
+
+  const append = async (date: string, entry: LedgerEntry) => {
+    await mkdir(directory, { recursive: true });
+    // Small appends are atomic, so concurrent processes never interleave lines
+    await appendFile(ledgerPath(date), `${JSON.stringify(entry)}\n`);
+    if (prunedOn !== date) {
+      prunedOn = date;
+      await prune(date);
+    }
+  };
+
+  // Today's totals for every process sharing the directory
+  const readDay = async () => {
+    await appends;
+    const { date, totals: local } = currentDay();
+    const totals = emptyTotals();
+    let text = "";
+    try {
+      text = await readFile(ledgerPath(date), "utf8");
+    } catch {
+      // No calls recorded today
+    }
+    for (const line of text.split("\n")) {
+      try {
+        add(totals, LedgerEntry.parse(JSON.parse(line)));
+      } catch {
+        // Skip the empty last line and lines from other versions
+      }
+    }
+    return { date, totals: totals.requests >= local.requests ? totals : local };
+  };
+
+  const createView = (): UsageTracker => {
+    const bySession = new Map<string, UsageTotals>();
+
+    return {
+      async assertWithinBudget(sessionId) {
+        if (settings.dailyBudgetUsd !== undefined) {
+          const { date, totals } = await readDay();
+          if (totals.costUsd >= settings.dailyBudgetUsd) {
+            throw new BudgetExceededError(
+              `Daily budget of ${formatUsd(settings.dailyBudgetUsd)} reached (${formatUsd(totals.costUsd)} spent on ${date} UTC). ` +
+                "Calls are refused until the next UTC day; raise usage.dailyBudgetUsd to continue.",
+            );
+          }
+        }
+
+        const sessionCost = sessionId ? bySession.get(sessionId)?.costUsd : undefined;
+        if (
+          settings.sessionBudgetUsd !== undefined &&
+          sessionCost !== undefined &&
+          sessionCost >= settings.sessionBudgetUsd
+        ) {
+          throw new BudgetExceededError(
+            `Session budget of ${formatUsd(settings.sessionBudgetUsd)} reached for session "${sessionId}" (${formatUsd(sessionCost)} spent). ` +
+              "Start a new session or raise usage.sessionBudgetUsd to continue.",
+          );
+        }
+      },
+
+      record({ tool, model, sessionId, usage }) {
+        const price = settings.prices[model];
+        if (!price && !usage.cost) {
+          unpricedModels.add(model);
+        }
+        const entry: LedgerEntry = {
+          tool,
+          model,
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          searchQueries: usage.num_search_queries ?? 0,
+          costUsd: estimateCost(usage, price),
+        };
+
+        const { date, totals: day } = currentDay();
+        const scopes = [total, day];
+        for (const [map, key] of [
+          [byTool, tool],
+          [bySession, sessionId],
+        ] as const) {
+          if (key !== undefined) {
+            const totals = map.get(key) ?? emptyTotals();
+            map.set(key, totals);
+            scopes.push(totals);
+          }
+        }
+        for (const totals of scopes) {
+          add(totals, entry);
+        }
+        // Best-effort: without the ledger, this process's own calls still count
+        appends = appends.then(() => append(date, entry)).catch(() => {});
+      },
+
+      async report() {
+        const { date, totals } = await readDay();
+        const roundAll = (map: Map<string, UsageTotals>) =>
+          Object.fromEntries([...map].map(([key, value]) => [key, roundTotals(value)]));
+        return {
+          since,
+          total: roundTotals(total),
+          today: { date, ...roundTotals(totals) },
+          byTool: roundAll(byTool),
+          bySession: roundAll(bySession),
+          budgets: { dailyUsd: settings.dailyBudgetUsd, sessionUsd: settings.sessionBudgetUsd },
+          unpricedModels: [...unpricedModels],
+        };
+      },
+
+      forClient: createView,
+    };
+  };
+
+  return createView();
+}
+
+/**
+ * Resolves the default usage ledger directory: PERPLEXITY_USAGE_DIR, then
+ * $XDG_STATE_HOME/perplexity-agent-mcp/usage, then
+ * ~/.local/state/perplexity-agent-mcp/usage.
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment to read the directory from
+ * @returns {string} The usage directory
+ */
+export function defaultUsageDirectory(env = process.env): string {
+  if (env.PERPLEXITY_USAGE_DIR) {
+    return env.PERPLEXITY_USAGE_DIR;
+  }
+  const stateHome = env.XDG_STATE_HOME ?? path.join(homedir(), ".local", "state");
+  return path.join(stateHome, "perplexity-agent-mcp", "usage");
+}
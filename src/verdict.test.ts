@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { parseVerification } from "./verdict.ts";
+
+describe("parseVerification", () => {
+  it("should read every field from the verify prompt's output format", () => {
+    const input = `- **Verdict:** outdated
+- **Confidence:** high
+- **Corrected fact:** Since React 19, function components ignore \`defaultProps\`; use default parameters instead [1].
+- **Evidence:** The React 19 upgrade guide lists defaultProps for function components as removed [1].`;
+
+    expect(parseVerification(input)).toEqual({
+      verdict: "outdated",
+      confidence: "high",
+      correctedFact:
+        "Since React 19, function components ignore `defaultProps`; use default parameters instead [1].",
+      evidence:
+        "The React 19 upgrade guide lists defaultProps for function components as removed [1].",
+    });
+  });
+
+  it("should accept headings, bold values and multi-line evidence", () => {
+    const input = `## Verdict
+**Supported**
+
+Confidence: Medium.
+
+### Evidence
+fs.rm() throws ERR_FS_EISDIR for directories
+unless recursive is set [1].`;
+
+    expect(parseVerification(input)).toEqual({
+      verdict: "supported",
+      confidence: "medium",
+      correctedFact: undefined,
+      evidence: "fs.rm() throws ERR_FS_EISDIR for directories\nunless recursive is set [1].",
+    });
+  });
+
+  it("should drop the corrected fact unless the claim was refuted or outdated", () => {
+    const supported = parseVerification(
+      "**Verdict:** supported\n**Confidence:** high\n**Corrected fact:** The claim is correct.",
+    );
+    const refuted = parseVerification(
+      "**Verdict:** refuted\n**Confidence:** high\n**Corrected fact:** N/A",
+    );
+
+    expect(supported.correctedFact).toBeUndefined();
+    expect(refuted.correctedFact).toBeUndefined();
+  });
+
+  it("should treat a negated or qualified verdict as unverifiable", () => {
+    const negated = parseVerification("**Verdict:** Not supported\n**Confidence:** high");
+    const qualified = parseVerification(
+      "**Verdict:** Partially supported, but outdated since v5\n**Confidence:** medium",
+    );
+
+    expect(negated.verdict).toBe("unverifiable");
+    expect(qualified.verdict).toBe("unverifiable");
+  });
+
+  it("should read the verdict from its first line only", () => {
+    const input = "**Verdict:** _Refuted_.\nIt was never supported.\n**Confidence:** high";
+
+    expect(parseVerification(input).verdict).toBe("refuted");
+  });
+
+  it("should fall back to unverifiable with low confidence when the labels are missing", () => {
+    expect(parseVerification("I could not find anything about this option.")).toEqual({
+      verdict: "unverifiable",
+      confidence: "low",
+      correctedFact: undefined,
+      evidence: undefined,
+    });
+  });
+});
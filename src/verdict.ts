@@ -0,0 +1,120 @@
+import { z } from "zod";
+
+/**
+ * Schema for a verify tool verdict: outdated claims were true for an earlier version
+ */
+export const Verdict = z.enum(["supported", "refuted", "outdated", "unverifiable"]);
+export type Verdict = z.infer<typeof Verdict>;
+
+/**
+ * Schema for the model's confidence in a verdict
+ */
+export const Confidence = z.enum(["high", "medium", "low"]);
+export type Confidence = z.infer<typeof Confidence>;
+
+/**
+ * Fields requested by the verify system prompt's "Output Format"
+ */
+export interface Verification {
+  verdict: Verdict;
+  confidence: Confidence;
+  /** Present for refuted and outdated claims */
+  correctedFact?: string;
+  evidence?: string;
+}
+
+type Field = "verdict" | "confidence" | "correctedFact" | "evidence";
+
+const FIELD_KEYS: Record<string, Field> = {
+  verdict: "verdict",
+  confidence: "confidence",
+  "corrected fact": "correctedFact",
+  correction: "correctedFact",
+  evidence: "evidence",
+};
+
+/**
+ * Matches a field label at the start of a line, in the same forms as answer
+ * section headings: "**Verdict:** text", "- **Verdict**: text", "## Verdict", "Verdict:".
+ * Group 1 is the label; group 2 is any text following it on the same line.
+ */
+const LABEL =
+  /^[ \t]*(?:#{1,6}[ \t]+|[-*][ \t]+)?(?:\*\*|__)?(verdict|confidence|corrected fact|correction|evidence)(?:[ \t]*:[ \t]*(?:\*\*|__)|(?:\*\*|__)[ \t]*:?|[ \t]*:|[ \t]*$)[ \t]*(.*)$/gimu;
+
+/** Values models write when a field does not apply */
+const NOT_APPLICABLE = /^(?:n\/?a|none|-|not applicable)\.?$/iu;
+
+/**
+ * Matches a verdict line that is a single word, optionally bold or italic and
+ * followed by a period, e.g. "supported", "**Supported**" or "_refuted_."
+ */
+const SINGLE_WORD = /^(?:\*\*|__|\*|_)?([a-z]+)(?:\*\*|__|\*|_)?\.?$/iu;
+
+/**
+ * Returns the verdict when the first line of the field is exactly one of the
+ * options. Anything else, such as "Not supported" or "Partially supported,
+ * but outdated since v5", is not a verdict agents can rely on.
+ */
+function readVerdict(text: string | undefined): Verdict | undefined {
+  const line = text?.split("\n", 1)[0]?.trim() ?? "";
+  const word = SINGLE_WORD.exec(line)?.[1]?.toLowerCase();
+  return Verdict.options.find((option) => option === word);
+}
+
+/**
+ * Returns the first option named in the text, e.g. "medium" in "Medium.".
+ */
+function findOption<T extends string>(
+  text: string | undefined,
+  options: readonly T[],
+): T | undefined {
+  for (const word of text?.toLowerCase().match(/[a-z]+/gu) ?? []) {
+    const option = options.find((candidate) => candidate === word);
+    if (option) {
+      return option;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads the verdict, confidence, corrected fact and evidence from a verify
+ * answer. A missing verdict, or one that is not exactly one of the four words,
+ * is reported as unverifiable and a
+ * missing confidence as low, so agents can always branch on both. The
+ * corrected fact is kept only for refuted and outdated verdicts.
+ *
+ * @param {string} content - The think-stripped answer text
+ * @returns {Verification} The parsed verification
+ */
+export function parseVerification(content: string): Verification {
+  const labels = [...content.matchAll(LABEL)];
+  const fields: Partial<Record<Field, string>> = {};
+
+  for (const [position, match] of labels.entries()) {
+    const key = FIELD_KEYS[(match[1] ?? "").toLowerCase()];
+    if (!key || fields[key] !== undefined) {
+      continue;
+    }
+    const start = match.index + match[0].length;
+    const end = labels[position + 1]?.index ?? content.length;
+    const text = `${match[2] ?? ""}${content.slice(start, end)}`.trim();
+    if (text) {
+      fields[key] = text;
+    }
+  }
+
+  const verdict = readVerdict(fields.verdict) ?? "unverifiable";
+  const correctedFact =
+    (verdict === "refuted" || verdict === "outdated") &&
+    fields.correctedFact &&
+    !NOT_APPLICABLE.test(fields.correctedFact)
+      ? fields.correctedFact
+      : undefined;
+  return {
+    verdict,
+    confidence: findOption(fields.confidence, Confidence.options) ?? "low",
+    correctedFact,
+    evidence: fields.evidence,
+  };
+}
@@ -0,0 +1,74 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { registerWorkflowPrompts } from "./workflow-prompts.ts";
+
+let client: Client;
+
+const promptText = async (name: string, arguments_: Record<string, string>) => {
+  const result = await client.getPrompt({ name, arguments: arguments_ });
+  const content = result.messages[0]?.content;
+  return content?.type === "text" ? content.text : "";
+};
+
+beforeEach(async () => {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerWorkflowPrompts(server);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  client = new Client({ name: "test-client", version: "0.0.0" });
+  await client.connect(clientTransport);
+});
+
+describe("registerWorkflowPrompts", () => {
+  it("should list the workflow prompts with their arguments", async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "migrate_dependency",
+      "compare_libraries",
+      "explain_error",
+      "check_compatibility",
+    ]);
+    expect(prompts[0]?.arguments).toEqual([
+      expect.objectContaining({ name: "package", required: true }),
+      expect.objectContaining({ name: "from_version", required: false }),
+      expect.objectContaining({ name: "to_version", required: false }),
+    ]);
+  });
+
+  it("should expand a migration into answer and lookup questions", async () => {
+    const text = await promptText("migrate_dependency", {
+      package: "zod",
+      from_version: "3.23.8",
+      to_version: "4.0.0",
+    });
+    expect(text).toContain(
+      '"How do I migrate zod from 3.23.8 to 4.0.0? List the breaking changes, removed or renamed APIs, and any official codemods."',
+    );
+    expect(text).toContain("lookup tool");
+  });
+
+  it("should default to the installed version and latest release", async () => {
+    const text = await promptText("migrate_dependency", { package: "vite" });
+    expect(text).toContain("Find the installed version of vite in the lockfile");
+    expect(text).toContain("from <installed version> to latest");
+  });
+
+  it("should quote the first line of a multi-line error message", async () => {
+    const text = await promptText("explain_error", {
+      error_message: "TypeError: fetch failed\n    at node:internal/deps/undici",
+      context: "Node.js 22",
+    });
+    expect(text).toContain(
+      '"What causes the error \\"TypeError: fetch failed\\" (Node.js 22), and how',
+    );
+    expect(text).toContain("    at node:internal/deps/undici");
+  });
+
+  it("should reject a call missing a required argument", async () => {
+    await expect(
+      client.getPrompt({ name: "compare_libraries", arguments: { library_a: "zod" } }),
+    ).rejects.toThrow(/library_b/u);
+  });
+});
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Wraps instructions as a single user message.
+ */
+function userMessage(text: string): GetPromptResult {
+  return { messages: [{ role: "user", content: { type: "text", text: text.trim() } }] };
+}
+
+/**
+ * Registers MCP prompts for common research workflows. Each prompt expands
+ * into instructions that tell the agent which questions to send to lookup
+ * and answer, so users don't have to type the framing themselves.
+ *
+ * @param {McpServer} server - The server to register the prompts with
+ */
+export function registerWorkflowPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "migrate_dependency",
+    {
+      title: "Migrate a dependency",
+      description: "Upgrade a package to a newer version using the official migration guide",
+      argsSchema: {
+        package: z.string().describe("The package to upgrade, e.g. zod"),
+        from_version: z
+          .string()
+          .optional()
+          .describe("Currently installed version; read from the lockfile when omitted"),
+        to_version: z.string().optional().describe("Target version (default: latest)"),
+      },
+    },
+    ({ package: name, from_version: fromVersion, to_version: toVersion = "latest" }) => {
+      const from = fromVersion ?? "<installed version>";
+      return userMessage(`
+Upgrade the "${name}" dependency to ${toVersion}.
+
+1. ${fromVersion ? `The installed version is ${fromVersion}.` : `Find the installed version of ${name} in the lockfile and use it in place of <installed version> below.`}
+2. Call the answer tool with the question:
+   "How do I migrate ${name} from ${from} to ${toVersion}? List the breaking changes, removed or renamed APIs, and any official codemods."
+3. For every API of ${name} this codebase uses whose behavior is unclear after reading the answer, call the lookup tool with a single question, e.g.:
+   "What is the signature of <API> in ${name} ${toVersion}?"
+4. Update the dependency, apply the changes at every call site, and run the type checker and tests.
+5. Summarize what changed and cite the sources the tools returned.
+`);
+    },
+  );
+
+  server.registerPrompt(
+    "compare_libraries",
+    {
+      title: "Choose between two libraries",
+      description: "Compare two libraries for a use case and recommend one",
+      argsSchema: {
+        library_a: z.string().describe("First candidate, e.g. zod"),
+        library_b: z.string().describe("Second candidate, e.g. valibot"),
+        use_case: z
+          .string()
+          .optional()
+          .describe("What the library is needed for, e.g. validating API request bodies"),
+      },
+    },
+    ({ library_a: first, library_b: second, use_case: useCase }) => {
+      const purpose = useCase ? ` for ${useCase}` : "";
+      return userMessage(`
+Help me choose between ${first} and ${second}${purpose}.
+
+1. Check package.json and the source code for constraints that matter (runtime, bundler, module format, existing dependencies) and mention them in the question below.
+2. Call the answer tool with the question:
+   "Should I use ${first} or ${second}${purpose}? Compare API ergonomics, TypeScript support, bundle size, performance, maintenance activity and ecosystem, given <constraints>."
+3. If the answer hinges on a specific fact (e.g. ESM support or a minimum Node.js version), confirm it with one lookup call per fact.
+4. Give a clear recommendation with the main trade-off, and cite the sources the tools returned.
+`);
+    },
+  );
+
+  server.registerPrompt(
+    "explain_error",
+    {
+      title: "Explain an error message",
+      description: "Find the cause of an error message and how to fix it",
+      argsSchema: {
+        error_message: z.string().describe("The error message, as printed"),
+        context: z
+          .string()
+          .optional()
+          .describe("Where it happens: library, runtime, command or code involved"),
+      },
+    },
+    ({ error_message: errorMessage, context }) => {
+      const firstLine = errorMessage.trim().split("\n")[0] ?? errorMessage;
+      const where = context ? ` (${context})` : "";
+      return userMessage(`
+Explain and fix this error${where}:
+
+\`\`\`
+${errorMessage.trim()}
+\`\`\`
+
+1. Find the code that triggers the error and note the versions of the libraries involved.
+2. Call the answer tool with the question:
+   "What causes the error \\"${firstLine}\\"${where}, and how do I fix it?"
+   Add the relevant library versions to the question.
+3. If the fix depends on an API detail (an option name, a default value, a changed signature), confirm it with a lookup call.
+4. Apply the fix, verify the error is gone, and explain the root cause citing the sources the tools returned.
+`);
+    },
+  );
+
+  server.registerPrompt(
+    "check_compatibility",
+    {
+      title: "Check runtime compatibility",
+      description: "Check whether a package works in a given runtime or environment",
+      argsSchema: {
+        package: z.string().describe("The package to check, e.g. sharp"),
+        runtime: z
+          .string()
+          .describe("Target runtime, e.g. Node.js 20, Bun, Deno, Cloudflare Workers, browsers"),
+        version: z.string().optional().describe("Package version (default: the installed one)"),
+      },
+    },
+    ({ package: name, runtime, version }) => {
+      const target = version ? `${name} ${version}` : name;
+      return userMessage(`
+Check whether ${target} is compatible with ${runtime}.
+
+1. ${version ? "" : `Find the installed version of ${name} in the lockfile and include it in the questions below. `}Call the lookup tool once per question:
+   - "Does ${target} support ${runtime}? What are its engines requirements?"
+   - "Does ${target} ship ESM, CommonJS or both, and does it depend on native modules or Node.js built-ins?"
+2. If it is not compatible, call the answer tool with:
+   "What is the best alternative to ${name} that works in ${runtime}?"
+3. Report the verdict, any required configuration or polyfills, and cite the sources the tools returned.
+`);
+    },
+  );
+}
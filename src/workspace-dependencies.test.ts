@@ -0,0 +1,184 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  describeDependencyContext,
+  findMentionedDependencies,
+  readWorkspaceDependencies,
+} from "./workspace-dependencies.ts";
+
+let directory: string;
+
+const packageJson = {
+  dependencies: { zod: "^3.22.0", "@tanstack/react-query": "^5.0.0" },
+  devDependencies: { vite: "^5.0.0" },
+  engines: { node: ">=20" },
+};
+
+const write = (file: string, content: unknown) =>
+  writeFile(
+    path.join(directory, file),
+    typeof content === "string" ? content : JSON.stringify(content),
+  );
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "perplexity-workspace-"));
+  await write("package.json", packageJson);
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("readWorkspaceDependencies", () => {
+  it("should read exact versions from pnpm-lock.yaml", async () => {
+    await write(
+      "pnpm-lock.yaml",
+      `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      '@tanstack/react-query':
+        specifier: ^5.0.0
+        version: 5.59.0(react@18.3.1)
+      zod:
+        specifier: ^3.22.0
+        version: 3.23.8
+    devDependencies:
+      vite:
+        specifier: ^5.0.0
+        version: 5.4.10(@types/node@22.7.5)
+
+packages:
+
+  zod@3.23.8:
+    resolution: {integrity: sha512-x}
+`,
+    );
+
+    const workspace = await readWorkspaceDependencies(directory);
+    expect(workspace?.nodeEngine).toBe(">=20");
+    expect(workspace?.dependencies).toEqual(
+      expect.arrayContaining([
+        { name: "zod", version: "3.23.8", lockfile: "pnpm-lock.yaml" },
+        { name: "@tanstack/react-query", version: "5.59.0", lockfile: "pnpm-lock.yaml" },
+        { name: "vite", version: "5.4.10", lockfile: "pnpm-lock.yaml" },
+      ]),
+    );
+  });
+
+  it("should read exact versions from package-lock.json", async () => {
+    await write("package-lock.json", {
+      lockfileVersion: 3,
+      packages: { "": {}, "node_modules/zod": { version: "3.23.8" } },
+    });
+
+    const workspace = await readWorkspaceDependencies(directory);
+    expect(workspace?.dependencies).toContainEqual({
+      name: "zod",
+      version: "3.23.8",
+      lockfile: "package-lock.json",
+    });
+    expect(workspace?.dependencies).toContainEqual({ name: "vite", version: "^5.0.0" });
+  });
+
+  it("should read exact versions from classic and Berry yarn.lock entries", async () => {
+    await write(
+      "yarn.lock",
+      `# yarn lockfile v1
+
+"@tanstack/react-query@npm:^5.0.0":
+  version: 5.59.0
+  resolution: "@tanstack/react-query@npm:5.59.0"
+
+vite@^5.0.0, vite@^5.1.0:
+  version "5.4.10"
+  resolved "https://registry.yarnpkg.com/vite/-/vite-5.4.10.tgz"
+
+zod@^3.22.0:
+  version "3.23.8"
+`,
+    );
+
+    const workspace = await readWorkspaceDependencies(directory);
+    expect(workspace?.dependencies).toEqual(
+      expect.arrayContaining([
+        { name: "zod", version: "3.23.8", lockfile: "yarn.lock" },
+        { name: "vite", version: "5.4.10", lockfile: "yarn.lock" },
+        { name: "@tanstack/react-query", version: "5.59.0", lockfile: "yarn.lock" },
+      ]),
+    );
+  });
+
+  it("should return undefined without a valid package.json", async () => {
+    await write("package.json", "{ not json");
+    await expect(readWorkspaceDependencies(directory)).resolves.toBeUndefined();
+  });
+});
+
+describe("findMentionedDependencies", () => {
+  const workspace = {
+    dependencies: [
+      { name: "zod", version: "3.23.8", lockfile: "pnpm-lock.yaml" },
+      { name: "vite", version: "^5.0.0" },
+      { name: "react", version: "18.3.1", lockfile: "pnpm-lock.yaml" },
+    ],
+    nodeEngine: ">=20",
+  };
+
+  it("should pick mentioned packages as whole words with the Node engine", () => {
+    const context = findMentionedDependencies("How do I migrate Zod to v4?", [workspace]);
+    expect(context).toEqual({
+      dependencies: [{ name: "zod", version: "3.23.8", lockfile: "pnpm-lock.yaml" }],
+      nodeEngine: ">=20",
+    });
+    expect(describeDependencyContext(context!)).toBe("zod 3.23.8 (pnpm-lock.yaml), Node >=20");
+  });
+
+  it("should not match package names inside other names", () => {
+    expect(findMentionedDependencies("Is react-dom 19 stable?", [workspace])).toBeUndefined();
+  });
+
+  it("should not read ordinary words as package names", () => {
+    const everyday = {
+      dependencies: [
+        { name: "next", version: "15.1.0" },
+        { name: "debug", version: "4.4.0" },
+        { name: "open", version: "10.1.0" },
+        { name: "chalk", version: "5.4.1" },
+        { name: "ws", version: "8.18.0" },
+      ],
+    };
+
+    expect(
+      findMentionedDependencies(
+        "What should I try next to debug why the file does not open? Debug output is empty.",
+        [everyday],
+      ),
+    ).toBeUndefined();
+  });
+
+  it("should pick names in code spans, quotes, with versions or in package names", () => {
+    const context = findMentionedDependencies(
+      'Does `vite` support Next.js-style routing with "react" and zod@4?',
+      [{ dependencies: [...workspace.dependencies, { name: "next", version: "15.1.0" }] }],
+    );
+
+    expect(context?.dependencies.map((dependency) => dependency.name)).toEqual([
+      "zod",
+      "vite",
+      "react",
+      "next",
+    ]);
+  });
+
+  it("should include only the Node engine when the question is about Node", () => {
+    expect(findMentionedDependencies("Does Node.js support require(esm)?", [workspace])).toEqual({
+      dependencies: [],
+      nodeEngine: ">=20",
+    });
+  });
+});
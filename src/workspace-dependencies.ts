@@ -0,0 +1,252 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import type { DependencyContext, InstalledDependency } from "./schemas.js";
+
+/**
+ * Dependencies and Node engine read from one workspace root
+ */
+export interface WorkspaceDependencies {
+  dependencies: InstalledDependency[];
+  /** engines.node from package.json */
+  nodeEngine?: string;
+}
+
+const PackageJson = z.object({
+  dependencies: z.record(z.string(), z.string()).optional(),
+  devDependencies: z.record(z.string(), z.string()).optional(),
+  optionalDependencies: z.record(z.string(), z.string()).optional(),
+  peerDependencies: z.record(z.string(), z.string()).optional(),
+  engines: z.object({ node: z.string().optional() }).optional(),
+});
+
+const PackageLock = z.object({
+  /** lockfileVersion 2 and 3 */
+  packages: z.record(z.string(), z.object({ version: z.string().optional() })).optional(),
+  /** lockfileVersion 1 */
+  dependencies: z.record(z.string(), z.object({ version: z.string().optional() })).optional(),
+});
+
+const escapeRegExp = (value: string) => value.replaceAll(/[$()*+.?[\\\]^{|}]/gu, String.raw`\$&`);
+
+/**
+ * Parses JSON, returning undefined for malformed input.
+ */
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads a file, returning undefined when it does not exist or cannot be read.
+ */
+async function readOptionalFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds a direct dependency's version in pnpm-lock.yaml (lockfile v6 and v9),
+ * where each entry is "name:" followed by "specifier:" and "version:" lines.
+ * Peer suffixes such as "1.2.3(react@18.2.0)" are dropped.
+ */
+function findPnpmVersion(lockfile: string, name: string): string | undefined {
+  const entry = new RegExp(
+    String.raw`^\s+'?${escapeRegExp(name)}'?:\s*\n\s+specifier:.*\n\s+version:\s*([^\s(]+)`,
+    "mu",
+  );
+  return entry.exec(lockfile)?.[1];
+}
+
+/**
+ * Finds a dependency's version in package-lock.json (any lockfileVersion).
+ */
+function findNpmVersion(lockfile: z.infer<typeof PackageLock>, name: string): string | undefined {
+  return (
+    lockfile.packages?.[`node_modules/${name}`]?.version ?? lockfile.dependencies?.[name]?.version
+  );
+}
+
+/**
+ * Finds a dependency's version in yarn.lock (classic and Berry), matching the
+ * entry whose descriptor list contains the range declared in package.json.
+ */
+function findYarnVersion(lockfile: string, name: string, range: string): string | undefined {
+  const descriptor = `${escapeRegExp(name)}@(?:npm:)?${escapeRegExp(range)}`;
+  const entry = new RegExp(
+    String.raw`^"?[^\n]*(?:^|[\s",])${descriptor}[",:][^\n]*\n(?:\s+[^\n]*\n)*?\s+version:?\s+"?([^"\s]+)`,
+    "mu",
+  );
+  return entry.exec(lockfile)?.[1];
+}
+
+/**
+ * Reads the first lockfile found in a workspace root (pnpm, npm, then yarn)
+ * and returns a lookup for exact versions of direct dependencies.
+ */
+async function readLockfile(
+  directory: string,
+): Promise<
+  { name: string; findVersion: (name: string, range: string) => string | undefined } | undefined
+> {
+  const pnpmLock = await readOptionalFile(path.join(directory, "pnpm-lock.yaml"));
+  if (pnpmLock !== undefined) {
+    return { name: "pnpm-lock.yaml", findVersion: (name) => findPnpmVersion(pnpmLock, name) };
+  }
+
+  const npmLock = await readOptionalFile(path.join(directory, "package-lock.json"));
+  if (npmLock !== undefined) {
+    const parsed = PackageLock.safeParse(parseJson(npmLock));
+    return parsed.success
+      ? { name: "package-lock.json", findVersion: (name) => findNpmVersion(parsed.data, name) }
+      : undefined;
+  }
+
+  const yarnLock = await readOptionalFile(path.join(directory, "yarn.lock"));
+  if (yarnLock !== undefined) {
+    return {
+      name: "yarn.lock",
+      findVersion: (name, range) => findYarnVersion(yarnLock, name, range),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Reads package.json and the lockfile (pnpm, npm or yarn, in that order) from a
+ * workspace root. Versions missing from the lockfile fall back to the declared range.
+ *
+ * @param {string} directory - The workspace root
+ * @returns {Promise<WorkspaceDependencies | undefined>} The dependencies, or undefined without a valid package.json
+ */
+export async function readWorkspaceDependencies(
+  directory: string,
+): Promise<WorkspaceDependencies | undefined> {
+  const rawPackageJson = await readOptionalFile(path.join(directory, "package.json"));
+  if (rawPackageJson === undefined) {
+    return undefined;
+  }
+  const parsedPackageJson = PackageJson.safeParse(parseJson(rawPackageJson));
+  if (!parsedPackageJson.success) {
+    return undefined;
+  }
+  const packageJson = parsedPackageJson.data;
+
+  const declared = {
+    ...packageJson.peerDependencies,
+    ...packageJson.optionalDependencies,
+    ...packageJson.devDependencies,
+    ...packageJson.dependencies,
+  };
+
+  const lockfile = await readLockfile(directory);
+
+  const dependencies = Object.entries(declared).map(([name, range]) => {
+    const version = lockfile?.findVersion(name, range);
+    return version === undefined
+      ? { name, version: range }
+      : { name, version, lockfile: lockfile?.name };
+  });
+
+  return { dependencies, nodeEngine: packageJson.engines?.node };
+}
+
+/** Names with a scope, punctuation or digits never read as ordinary words */
+const DISTINCTIVE_NAME = /[\d./@_-]/u;
+
+/** Text right after a name that marks a version or a Node.js package, e.g. "@4", " v15", " 3.2", ".js" */
+const VERSION_SUFFIX = /^(?:@\S|\s+v\d|\s+\d+\.\d|\.js\b)/iu;
+
+/** Text before a word that starts a sentence */
+const SENTENCE_START = /(?:^|[.!?:]\s+)$/u;
+
+/**
+ * Whether the question names the package in a way that reads as a package,
+ * not as an ordinary word like "next", "debug" or "open": in a code span or
+ * quotes, with a version or ".js" suffix, capitalized mid-sentence as a
+ * proper noun ("migrate Zod"), or in the exact case of a mixed-case name.
+ * Scoped names and names with punctuation or digits count wherever they
+ * appear as a whole word.
+ */
+function mentionsPackage(question: string, name: string): boolean {
+  const pattern = new RegExp(String.raw`(?<![\w@/.-])${escapeRegExp(name)}(?![\w/-])`, "giu");
+  for (const match of question.matchAll(pattern)) {
+    const word = match[0];
+    const before = question.slice(0, match.index);
+    const after = question.slice(match.index + word.length);
+    const quote = before.at(-1);
+    const inCodeSpan = before.split("`").length % 2 === 0;
+    const quoted = quote !== undefined && /["']/u.test(quote) && after.startsWith(quote);
+    const exactMixedCase = word === name && name !== name.toLowerCase();
+    const properNoun =
+      /^\p{Lu}/u.test(word) && !/^\p{Lu}/u.test(name) && !SENTENCE_START.test(before);
+    if (
+      DISTINCTIVE_NAME.test(name) ||
+      inCodeSpan ||
+      quoted ||
+      VERSION_SUFFIX.test(after) ||
+      exactMixedCase ||
+      properNoun
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Picks the dependencies a question mentions by package name (see
+ * mentionsPackage() for what counts as a mention) and the Node engine when the
+ * question mentions packages or Node. Earlier workspaces win when several
+ * declare the same package.
+ *
+ * @param {string} question - The user's question
+ * @param {WorkspaceDependencies[]} workspaces - Dependencies of each workspace root
+ * @returns {DependencyContext | undefined} The versions to assume, or undefined if none apply
+ */
+export function findMentionedDependencies(
+  question: string,
+  workspaces: WorkspaceDependencies[],
+): DependencyContext | undefined {
+  const mentioned = new Map<string, InstalledDependency>();
+  for (const dependency of workspaces.flatMap((workspace) => workspace.dependencies)) {
+    if (!mentioned.has(dependency.name) && mentionsPackage(question, dependency.name)) {
+      mentioned.set(dependency.name, dependency);
+    }
+  }
+
+  const mentionsNode = /\bnode(?:\.?js)?\b/iu.test(question);
+  const nodeEngine =
+    mentioned.size > 0 || mentionsNode
+      ? workspaces.find((workspace) => workspace.nodeEngine)?.nodeEngine
+      : undefined;
+
+  if (mentioned.size === 0 && nodeEngine === undefined) {
+    return undefined;
+  }
+  return { dependencies: [...mentioned.values()], nodeEngine };
+}
+
+/**
+ * Describes the assumed versions in one line, e.g.
+ * "zod 3.23.8 (pnpm-lock.yaml), vite ^5.0.0 (declared range), Node >=20".
+ *
+ * @param {DependencyContext} context - The versions to describe
+ * @returns {string} The description
+ */
+export function describeDependencyContext(context: DependencyContext): string {
+  const parts = context.dependencies.map(
+    (dependency) =>
+      `${dependency.name} ${dependency.version} (${dependency.lockfile ?? "declared range"})`,
+  );
+  if (context.nodeEngine) {
+    parts.push(`Node ${context.nodeEngine}`);
+  }
+  return parts.join(", ");
+}